@@ -0,0 +1,49 @@
+import type { Plugin } from 'vite'
+import { contentDir, loadContent } from './load'
+
+export { ContentError, contentDir, githubSnapshotFile, loadContent, repoName } from './load'
+
+const VIRTUAL_ID = 'virtual:content'
+const RESOLVED_ID = '\0' + VIRTUAL_ID
+
+/**
+ * Serves the validated `content/` collections as `virtual:content`. Invalid
+ * entries fail the build (or show the dev overlay) with the file and field.
+ */
+export default function content(): Plugin {
+  let root = process.cwd()
+
+  return {
+    name: 'content',
+
+    configResolved(config) {
+      root = config.root
+    },
+
+    resolveId(id) {
+      if (id === VIRTUAL_ID) return RESOLVED_ID
+    },
+
+    load(id) {
+      if (id !== RESOLVED_ID) return
+      const data = loadContent({ root })
+      return Object.entries(data)
+        .map(([name, value]) => `export const ${name} = ${JSON.stringify(value)}`)
+        .join('\n')
+    },
+
+    configureServer(server) {
+      const dir = contentDir(root)
+      server.watcher.add(dir)
+      const reload = (file: string) => {
+        if (!file.startsWith(dir)) return
+        const mod = server.moduleGraph.getModuleById(RESOLVED_ID)
+        if (mod) server.moduleGraph.invalidateModule(mod)
+        server.ws.send({ type: 'full-reload' })
+      }
+      server.watcher.on('change', reload)
+      server.watcher.on('add', reload)
+      server.watcher.on('unlink', reload)
+    },
+  }
+}
@@ -0,0 +1,185 @@
+import fs from 'node:fs'
+import path from 'node:path'
+import YAML from 'yaml'
+import type { z } from 'zod'
+import type { Content } from '../../src/content/types'
+import { createSchemas } from './schema'
+
+export type LoadOptions = {
+  /** Project root; `content/` and `public/` are resolved against it */
+  root: string
+}
+
+export type ContentIssue = {
+  /** Dotted path to the offending field, e.g. `panel.src` or `[2].tags` */
+  field: string
+  message: string
+}
+
+export class ContentError extends Error {
+  constructor(
+    readonly file: string,
+    readonly issues: ContentIssue[],
+  ) {
+    super(
+      [`Invalid content in ${file}`, ...issues.map((issue) => `  - ${issue.field || '(root)'}: ${issue.message}`)].join('\n'),
+    )
+    this.name = 'ContentError'
+  }
+}
+
+const FRONTMATTER = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?([\s\S]*)$/
+
+function formatPath(segments: (string | number)[]): string {
+  return segments
+    .map((segment, i) => (typeof segment === 'number' ? `[${segment}]` : i === 0 ? segment : `.${segment}`))
+    .join('')
+}
+
+/**
+ * Reads a JSON, YAML or Markdown file. Markdown files must start with a YAML
+ * frontmatter block; the text after it is returned as `body`.
+ */
+function readData(root: string, file: string): unknown {
+  const relative = path.relative(root, file)
+  const source = fs.readFileSync(file, 'utf8')
+  try {
+    switch (path.extname(file)) {
+      case '.json':
+        return JSON.parse(source)
+      case '.yaml':
+      case '.yml':
+        return YAML.parse(source)
+      case '.md': {
+        const match = FRONTMATTER.exec(source)
+        if (!match) throw new Error('missing YAML frontmatter block')
+        return { ...YAML.parse(match[1]), body: match[2].trim() }
+      }
+      default:
+        throw new Error(`unsupported file type ${path.extname(file)}`)
+    }
+  } catch (err) {
+    if (err instanceof ContentError) throw err
+    throw new ContentError(relative, [{ field: '', message: (err as Error).message }])
+  }
+}
+
+function parse<T extends z.ZodTypeAny>(root: string, file: string, schema: T, data: unknown): z.output<T> {
+  const result = schema.safeParse(data)
+  if (!result.success) {
+    throw new ContentError(
+      path.relative(root, file),
+      result.error.issues.map((issue) => ({ field: formatPath(issue.path), message: issue.message })),
+    )
+  }
+  return result.data
+}
+
+/** Finds `content/<name>.{yaml,yml,json}`. */
+function collectionFile(contentDir: string, name: string): string {
+  for (const ext of ['.yaml', '.yml', '.json']) {
+    const file = path.join(contentDir, name + ext)
+    if (fs.existsSync(file)) return file
+  }
+  throw new ContentError(path.join('content', name), [{ field: '', message: 'collection file not found' }])
+}
+
+/** Lists every entry file in `content/<name>/`, sorted by file name. */
+function collectionEntries(contentDir: string, name: string): string[] {
+  const dir = path.join(contentDir, name)
+  if (!fs.existsSync(dir)) return []
+  return fs
+    .readdirSync(dir)
+    .filter((entry) => /\.(md|ya?ml|json)$/.test(entry))
+    .sort()
+    .map((entry) => path.join(dir, entry))
+}
+
+function assertUniqueSlugs(root: string, entries: { file: string; slug: string }[]) {
+  const slugs = new Map<string, string>()
+  for (const { file, slug } of entries) {
+    const other = slugs.get(slug)
+    if (other) {
+      throw new ContentError(path.relative(root, file), [
+        { field: 'slug', message: `"${slug}" is already used by ${path.relative(root, other)}` },
+      ])
+    }
+    slugs.set(slug, file)
+  }
+}
+
+export function contentDir(root: string): string {
+  return path.join(root, 'content')
+}
+
+/** The repository stats snapshot; `plugins/github` refreshes it on every build that can reach the API. */
+export function githubSnapshotFile(root: string): string {
+  return path.join(contentDir(root), 'github.json')
+}
+
+/** `owner/repo` for a GitHub repository URL, the key of its entry in the snapshot. */
+export function repoName(url: string): string | undefined {
+  const match = /^https:\/\/github\.com\/([\w.-]+)\/([\w.-]+?)(?:\.git)?\/?$/.exec(url)
+  return match ? `${match[1]}/${match[2]}` : undefined
+}
+
+/**
+ * Loads and validates every collection under `content/`. Throws a
+ * `ContentError` naming the file and field of the first invalid entry.
+ */
+export function loadContent({ root }: LoadOptions): Content {
+  const dir = contentDir(root)
+  const schemas = createSchemas({ publicDir: path.join(root, 'public') })
+
+  const load = <T extends z.ZodTypeAny>(name: string, schema: T) => {
+    const file = collectionFile(dir, name)
+    return parse(root, file, schema, readData(root, file))
+  }
+
+  // Optional: without a snapshot the cards just leave the repository stats out
+  const snapshot = githubSnapshotFile(root)
+  const repos = fs.existsSync(snapshot) ? parse(root, snapshot, schemas.github, readData(root, snapshot)) : {}
+
+  // Projects are one Markdown file each: the file name is the slug (unless the
+  // frontmatter sets one), the body is the write-up shown on the project page,
+  // and `order` sets their position on the home page.
+  const entries = collectionEntries(dir, 'projects')
+    .map((file) => {
+      const { body, order, ...fields } = readData(root, file) as Record<string, unknown>
+      const slug = path.basename(file, path.extname(file))
+      const project = parse(root, file, schemas.project, { slug, ...fields, writeup: body })
+      const repo = repos[repoName(project.github) ?? '']
+      return { file, project: repo ? { ...project, repo } : project, order: typeof order === 'number' ? order : Number.MAX_SAFE_INTEGER }
+    })
+    .sort((a, b) => a.order - b.order)
+
+  assertUniqueSlugs(root, entries.map(({ file, project }) => ({ file, slug: project.slug })))
+  const projects = entries.map(({ project }) => project)
+
+  if (projects.length === 0) {
+    throw new ContentError('content/projects', [{ field: '', message: 'must contain at least one project' }])
+  }
+
+  // Posts work the same way, minus `order`: they are listed newest first
+  const posts = collectionEntries(dir, 'writing')
+    .map((file) => {
+      const { body, ...fields } = readData(root, file) as Record<string, unknown>
+      const slug = path.basename(file, path.extname(file))
+      return { file, post: parse(root, file, schemas.post, { slug, ...fields, body }) }
+    })
+    .sort((a, b) => b.post.date.localeCompare(a.post.date))
+  assertUniqueSlugs(root, posts.map(({ file, post }) => ({ file, slug: post.slug })))
+
+  const contact = load('contact', schemas.contact)
+
+  return {
+    projects,
+    posts: posts.map(({ post }) => post),
+    experiences: load('experience', schemas.experience),
+    toolkit: load('toolkit', schemas.toolkit),
+    skills: load('skills', schemas.skills),
+    aboutCards: load('about', schemas.about),
+    terminalLines: contact.terminal,
+    contactLinks: contact.links,
+  }
+}
@@ -0,0 +1,62 @@
+import hljs from 'highlight.js/lib/common'
+import { Marked } from 'marked'
+import { slugify } from '../../src/lib/anchors'
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+/**
+ * Renders a long-form Markdown document (a writing post) to HTML. Fenced code
+ * blocks are syntax highlighted with highlight.js class names (styled in
+ * src/index.css), and `##`+ headings get an id and link to themselves so
+ * sections can be shared.
+ */
+export function renderArticle(source: string): string {
+  const ids = new Map<string, number>()
+
+  const marked = new Marked({
+    renderer: {
+      heading({ tokens, depth }) {
+        const html = this.parser.parseInline(tokens)
+        if (depth === 1) return `<h1>${html}</h1>\n`
+        // Repeated headings get -2, -3, ... like GitHub
+        const base = slugify(this.parser.parseInline(tokens, this.parser.textRenderer)) || 'section'
+        const count = ids.get(base) ?? 0
+        ids.set(base, count + 1)
+        const id = count === 0 ? base : `${base}-${count + 1}`
+        return `<h${depth} id="${id}"><a class="heading-anchor" href="#${id}">${html}</a></h${depth}>\n`
+      },
+      code({ text, lang }) {
+        const language = lang?.trim().split(/\s+/)[0]
+        if (language && hljs.getLanguage(language)) {
+          const { value } = hljs.highlight(text, { language, ignoreIllegals: true })
+          return `<pre><code class="hljs language-${escapeHtml(language)}">${value}</code></pre>\n`
+        }
+        return `<pre><code>${escapeHtml(text)}</code></pre>\n`
+      },
+    },
+  })
+
+  return marked.parse(source, { async: false })
+}
+
+/** Whether highlight.js knows `language` (one of its common languages). */
+export const isHighlightLanguage = (language: string) => Boolean(hljs.getLanguage(language))
+
+/**
+ * Highlights `code` and splits the result into lines. A token that spans
+ * lines (a block comment, a multi-line string) is closed at the end of each
+ * line and reopened on the next, so every line is well-formed HTML.
+ */
+export function highlightLines(code: string, language: string): string[] {
+  const { value } = hljs.highlight(code, { language, ignoreIllegals: true })
+  const open: string[] = []
+  return value.split('\n').map((line) => {
+    const reopened = open.join('')
+    for (const [tag] of line.matchAll(/<span[^>]*>|<\/span>/g)) {
+      if (tag === '</span>') open.pop()
+      else open.push(tag)
+    }
+    return reopened + line + '</span>'.repeat(open.length)
+  })
+}
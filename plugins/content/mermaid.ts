@@ -0,0 +1,37 @@
+import crypto from 'node:crypto'
+import { renderMermaidSVG } from 'beautiful-mermaid'
+
+/** The site's color tokens, so a diagram follows the theme toggle without being rendered twice */
+const THEME = {
+  bg: 'rgb(var(--color-surface))',
+  fg: 'rgb(var(--color-strong))',
+  accent: 'rgb(var(--color-accent))',
+  muted: 'rgb(var(--color-muted))',
+  font: 'JetBrains Mono',
+  transparent: true,
+}
+
+/** Limits each rule of the renderer's stylesheet to its own diagrams; inline `<style>` applies to the whole page. */
+const scopeCss = (css: string) =>
+  css.replace(/(^|\})(\s*)([^{}]+?)\s*\{/g, (_, close: string, space: string, selectors: string) => {
+    const scoped = selectors.split(',').map((selector) => (selector.trim() === 'svg' ? 'svg.mermaid' : `svg.mermaid ${selector.trim()}`))
+    return `${close}${space}${scoped.join(', ')} {`
+  })
+
+/**
+ * Renders Mermaid source to SVG markup with beautiful-mermaid, which needs
+ * no browser. Ids get a prefix from the source's hash so several diagrams
+ * (and the page's own anchors) can share a page, and the font import is
+ * dropped because the site already loads JetBrains Mono. Throws on invalid
+ * source.
+ */
+export function renderMermaid(source: string): string {
+  const prefix = `mermaid-${crypto.createHash('sha256').update(source).digest('hex').slice(0, 8)}`
+  return renderMermaidSVG(source, THEME)
+    .replace(/^\s*@import url\([^)]*\);?\n?/m, '')
+    .replace(/<style>([\s\S]*?)<\/style>/g, (_, css: string) => `<style>${scopeCss(css)}</style>`)
+    .replace(/\bid="([^"]+)"/g, `id="${prefix}-$1"`)
+    .replace(/url\(#([^)]+)\)/g, `url(#${prefix}-$1)`)
+    .replace(/href="#([^"]+)"/g, `href="#${prefix}-$1"`)
+    .replace('<svg ', '<svg class="mermaid" ')
+}
@@ -0,0 +1,385 @@
+import fs from 'node:fs'
+import path from 'node:path'
+import { marked } from 'marked'
+import { z } from 'zod'
+import {
+  accents,
+  iconNames,
+  liveStatuses,
+  terminalLineKinds,
+  type AboutCard,
+  type CaseStudy,
+  type CarouselPanel,
+  type CaseStudyMetric,
+  type CastPanel,
+  type CodePanel,
+  type ContactLink,
+  type ContactTerminalLine,
+  type DiagramHotspot,
+  type DiagramPanel,
+  type Experience,
+  type ImagePanel,
+  type MermaidPanel,
+  type Post,
+  type Project,
+  type RepoStats,
+  type Skill,
+  type TerminalLine,
+  type TerminalPanel,
+  type ToolkitGroup,
+  type VideoPanel,
+} from '../../src/content/types'
+import { defaultLocale, locales } from '../../src/i18n'
+import { en, type MessageKey } from '../../src/i18n/en'
+import { parseCast } from '../../src/lib/asciicast'
+import { skillKey } from '../../src/lib/skills'
+import { highlightLines, isHighlightLanguage, renderArticle } from './markdown'
+import { renderMermaid } from './mermaid'
+
+type SchemaOptions = {
+  /** Absolute path of Vite's `public/` directory */
+  publicDir: string
+}
+
+/** Checks a schema's output against the type in src/content/types.ts; input may differ (shorthands, Markdown). */
+type Schema<T> = z.ZodType<T, z.ZodTypeDef, unknown>
+
+const text = z.string().trim().min(1, 'must not be empty')
+const slug = z.string().regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, 'must be lowercase words joined by hyphens, e.g. aws-game-leaderboard')
+const list = <T extends z.ZodTypeAny>(item: T) => z.array(item).nonempty('must have at least one entry')
+const markdown = text.transform((source) => marked.parse(source, { async: false }))
+const inlineMarkdown = text.transform((source) => marked.parseInline(source, { async: false }))
+
+export function createSchemas({ publicDir }: SchemaOptions) {
+  const publicAsset = z
+    .string()
+    .startsWith('/', 'must be an absolute path under public/, e.g. /diagram.png')
+    .refine((src) => fs.existsSync(path.join(publicDir, src)), (src) => ({
+      message: `${src} does not exist under public/`,
+    }))
+
+  const castFile = publicAsset
+    .refine((src) => src.endsWith('.cast'), 'must be an asciicast (.cast) file')
+    .superRefine((src, ctx) => {
+      const file = path.join(publicDir, src)
+      if (!fs.existsSync(file)) return
+      try {
+        parseCast(fs.readFileSync(file, 'utf8'))
+      } catch (err) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${src} is not a valid recording: ${(err as Error).message}` })
+      }
+    })
+
+  const imagePanel = z.object({
+    type: z.literal('image'),
+    src: publicAsset,
+    alt: text,
+    caption: text,
+  }) satisfies Schema<ImagePanel>
+
+  // A bare string is shorthand for an `output` line; `''` is a blank line.
+  const terminalLine = z.union([
+    z.string().transform((line): TerminalLine => ({ kind: 'output', text: line })),
+    z.object({
+      kind: z.enum(terminalLineKinds),
+      text: z.string(),
+      delay: z.number().int().nonnegative().optional(),
+    }),
+  ]) satisfies Schema<TerminalLine>
+
+  const terminalPanel = z.object({
+    type: z.literal('terminal'),
+    caption: text,
+    lines: list(terminalLine),
+  }) satisfies Schema<TerminalPanel>
+
+  const castPanel = z.object({
+    type: z.literal('cast'),
+    src: castFile,
+    alt: text,
+    caption: text,
+    speed: z.number().positive().optional(),
+  }) satisfies Schema<CastPanel>
+
+  const percent = z.number().min(0, 'must be between 0 and 100').max(100, 'must be between 0 and 100')
+
+  const diagramHotspot = z
+    .object({
+      id: slug,
+      label: text,
+      x: percent,
+      y: percent,
+      width: percent.positive('must be greater than 0'),
+      height: percent.positive('must be greater than 0'),
+      description: inlineMarkdown,
+      tags: z.array(text).default([]),
+    })
+    .refine((spot) => spot.x + spot.width <= 100, { message: 'x + width must not exceed 100', path: ['width'] })
+    .refine((spot) => spot.y + spot.height <= 100, { message: 'y + height must not exceed 100', path: ['height'] }) satisfies Schema<DiagramHotspot>
+
+  const diagramPanel = z.object({
+    type: z.literal('diagram'),
+    src: publicAsset,
+    alt: text,
+    caption: text,
+    hotspots: list(diagramHotspot),
+  }) satisfies Schema<Omit<DiagramPanel, 'svg'>>
+
+  // `highlight` takes line numbers and ranges: [3-5, 8]
+  const lineRange = z.union([
+    z.number().int().positive().transform((line) => [line]),
+    z
+      .string()
+      .regex(/^\d+-\d+$/, 'must be a line number or a range like 3-5')
+      .transform((range) => {
+        const [from, to] = range.split('-').map(Number)
+        return Array.from({ length: Math.max(to - from + 1, 0) }, (_, i) => from + i)
+      }),
+  ])
+
+  const codePanel = z.object({
+    type: z.literal('code'),
+    caption: text,
+    file: text,
+    language: text.refine(isHighlightLanguage, 'is not a language highlight.js knows, e.g. python or typescript'),
+    code: text,
+    start: z.number().int().positive().default(1),
+    highlight: z.array(lineRange).default([]),
+  })
+
+  const renderCode = ({ code, highlight, ...panel }: z.output<typeof codePanel>, ctx: z.RefinementCtx): CodePanel => {
+    const lines = highlightLines(code.replace(/\n+$/, ''), panel.language)
+    const last = panel.start + lines.length - 1
+    const numbers = [...new Set(highlight.flat())].sort((a, b) => a - b)
+    const outside = numbers.find((line) => line < panel.start || line > last)
+    if (outside !== undefined) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `line ${outside} is outside the excerpt (${panel.start}-${last})`, path: ['highlight'] })
+    }
+    return { ...panel, lines, highlight: numbers }
+  }
+
+  const mediaFile = (pattern: RegExp, message: string) => publicAsset.refine((src) => pattern.test(src), message)
+
+  const videoPanel = z.object({
+    type: z.literal('video'),
+    caption: text,
+    sources: list(mediaFile(/\.(mp4|webm)$/, 'must be an .mp4 or .webm file')),
+    poster: mediaFile(/\.(png|jpe?g|webp)$/i, 'must be a .png, .jpg or .webp image'),
+    alt: text,
+    captions: list(
+      z.object({
+        src: mediaFile(/\.vtt$/, 'must be a WebVTT (.vtt) file'),
+        lang: z.string().regex(/^[a-z]{2,3}(-[A-Za-z0-9]+)*$/, 'must be a language tag, e.g. en or es-MX'),
+        label: text,
+      }),
+    ),
+  }) satisfies Schema<VideoPanel>
+
+  const carouselPanel = z.object({
+    type: z.literal('carousel'),
+    caption: text,
+    slides: z
+      .array(z.object({ src: publicAsset, alt: text, caption: text.optional() }))
+      .min(2, 'must have at least two slides; use an image panel for one'),
+  }) satisfies Schema<CarouselPanel>
+
+  const mermaidPanel = z.object({
+    type: z.literal('mermaid'),
+    caption: text,
+    alt: text,
+    source: text,
+  })
+
+  const renderDiagram = ({ source, ...panel }: z.output<typeof mermaidPanel>, ctx: z.RefinementCtx): MermaidPanel => {
+    try {
+      return { ...panel, svg: renderMermaid(source) }
+    } catch (err) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `is not a diagram Mermaid can render: ${(err as Error).message}`, path: ['source'] })
+      return z.NEVER
+    }
+  }
+
+  // Code and Mermaid panels are rendered after the union has picked the schema by `type`
+  const panel = z
+    .discriminatedUnion('type', [imagePanel, terminalPanel, castPanel, diagramPanel, codePanel, videoPanel, carouselPanel, mermaidPanel])
+    .transform((panel, ctx) => (panel.type === 'code' ? renderCode(panel, ctx) : panel.type === 'mermaid' ? renderDiagram(panel, ctx) : panel))
+
+  const caseStudyMetric = z.object({
+    label: text,
+    value: text,
+    note: text.optional(),
+  }) satisfies Schema<CaseStudyMetric>
+
+  const caseStudy = z.object({
+    problem: markdown.optional(),
+    constraints: list(inlineMarkdown).optional(),
+    approach: markdown.optional(),
+    architecture: markdown.optional(),
+    outcome: markdown.optional(),
+    metrics: list(caseStudyMetric).optional(),
+    lessons: list(inlineMarkdown).optional(),
+  }) satisfies Schema<CaseStudy>
+
+  const project = z
+    .object({
+      slug,
+      title: text,
+      description: text,
+      longDescription: text,
+      badge: text,
+      github: z.string().url(),
+      live: z.string().url().optional(),
+      liveStatus: z.enum(liveStatuses).default('up'),
+      archive: z.discriminatedUnion('type', [imagePanel, castPanel]).optional(),
+      tags: list(text),
+      panel,
+      writeup: markdown,
+      caseStudy: caseStudy.optional(),
+    })
+    // A demo can only be down if there is one
+    .refine(({ live, liveStatus }) => live || liveStatus === 'up', { message: 'needs a `live` URL to be down', path: ['liveStatus'] })
+    // Hotspot ids must be unique and hotspot tags must be tags of the project
+    .superRefine(({ tags, panel }, ctx) => {
+      if (panel.type !== 'diagram') return
+      const seen = new Set<string>()
+      panel.hotspots.forEach((spot, i) => {
+        if (seen.has(spot.id)) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: `duplicate hotspot id "${spot.id}"`, path: ['panel', 'hotspots', i, 'id'] })
+        }
+        seen.add(spot.id)
+        spot.tags.forEach((tag, j) => {
+          if (tags.includes(tag)) return
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `"${tag}" is not one of the project's tags (${tags.join(', ')})`,
+            path: ['panel', 'hotspots', i, 'tags', j],
+          })
+        })
+      })
+    })
+    // SVG diagrams are inlined so their text stays crisp at any zoom level
+    .transform(({ panel, ...project }) => ({
+      ...project,
+      panel:
+        panel.type === 'diagram' && panel.src.endsWith('.svg')
+          ? { ...panel, svg: fs.readFileSync(path.join(publicDir, panel.src), 'utf8') }
+          : panel,
+    })) satisfies Schema<Project>
+
+  const isoDate = z
+    .string({ invalid_type_error: 'must be a date written as YYYY-MM-DD (quote it if YAML reads it as something else)' })
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'must be a date written as YYYY-MM-DD')
+    .refine((date) => !Number.isNaN(Date.parse(date)) && new Date(date).toISOString().startsWith(date), 'is not a real date')
+
+  const post = z.object({
+    slug,
+    title: text,
+    date: isoDate,
+    tags: z.array(text).default([]),
+    summary: text,
+    lang: z.enum(locales).default(defaultLocale),
+    body: text.transform(renderArticle),
+  }) satisfies Schema<Post>
+
+  // The years feed the toolkit's skill evidence
+  const period = z
+    .string()
+    .trim()
+    .regex(/^\d{4} - (\d{4}|Present)$/, 'must be written as YYYY - YYYY or YYYY - Present')
+    .refine((value) => {
+      const [start, end] = value.split(' - ')
+      return end === 'Present' || Number(end) >= Number(start)
+    }, 'must not end before it starts')
+
+  const experience = z
+    .object({
+      title: text,
+      company: text,
+      location: text,
+      period,
+      description: text,
+      achievements: list(text),
+      technologies: list(text),
+    })
+    .transform((role) => {
+      const [start, end] = role.period.split(' - ')
+      return { ...role, startYear: Number(start), ...(end !== 'Present' && { endYear: Number(end) }) }
+    }) satisfies Schema<Experience>
+
+  const toolkitGroup = z.object({
+    icon: z.enum(iconNames),
+    title: text,
+    items: list(text),
+    accent: z.enum(accents),
+  }) satisfies Schema<ToolkitGroup>
+
+  const skill = z.object({
+    name: text,
+    aliases: z.array(text).default([]),
+  }) satisfies Schema<Skill>
+
+  // A name may only belong to one skill, or tags would resolve ambiguously
+  const skills = z.array(skill).superRefine((entries, ctx) => {
+    const owners = new Map<string, string>()
+    entries.forEach((entry, i) => {
+      const names = [{ name: entry.name, at: [i, 'name'] }, ...entry.aliases.map((name, j) => ({ name, at: [i, 'aliases', j] }))]
+      for (const { name, at } of names) {
+        const owner = owners.get(skillKey(name))
+        if (owner !== undefined && owner !== entry.name) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: `"${name}" already names ${owner}`, path: at })
+        }
+        owners.set(skillKey(name), entry.name)
+      }
+    })
+  }) satisfies Schema<Skill[]>
+
+  // The diagram labels are interface copy, so content names a catalog message
+  const aboutNode = slug
+    .refine((id) => `about.node.${id}` in en, (id) => ({ message: `src/i18n/en.ts has no about.node.${id} message` }))
+    .transform((id) => `about.node.${id}` as MessageKey)
+
+  const aboutCard = z.object({
+    icon: z.enum(iconNames),
+    title: text,
+    node: aboutNode,
+    description: text,
+  }) satisfies Schema<AboutCard>
+
+  const contactTerminalLine = z.object({
+    text: text,
+    delay: z.number().int().nonnegative(),
+  }) satisfies Schema<ContactTerminalLine>
+
+  const timestamp = z.string().datetime({ offset: true, message: 'must be an ISO timestamp, e.g. 2026-10-19T12:00:00Z' })
+
+  const repoStats = z.object({
+    stars: z.number().int().nonnegative(),
+    languages: z.array(z.object({ name: text, bytes: z.number().int().nonnegative() })),
+    lastCommit: timestamp,
+    latestRelease: z.object({ tag: text, date: timestamp }).optional(),
+  }) satisfies Schema<RepoStats>
+
+  const contactLink = z.object({
+    icon: z.enum(iconNames),
+    label: text,
+    value: text,
+    href: z.string().url(),
+  }) satisfies Schema<ContactLink>
+
+  return {
+    project,
+    post,
+    experience: list(experience),
+    toolkit: list(toolkitGroup),
+    skills,
+    about: list(aboutCard),
+    contact: z.object({
+      terminal: list(contactTerminalLine),
+      links: list(contactLink),
+    }),
+    // Keyed by `owner/repo`
+    github: z.record(z.string().regex(/^[\w.-]+\/[\w.-]+$/, 'must be written as owner/repo'), repoStats),
+  }
+}
+
+export type ContentSchemas = ReturnType<typeof createSchemas>
@@ -0,0 +1,94 @@
+import type { Plugin } from 'vite'
+import type { Post } from '../../src/content/types'
+import { translate } from '../../src/i18n'
+import { SITE_NAME, SITE_URL } from '../../src/site'
+import { loadContent } from '../content'
+
+const FEED_TITLE = `${SITE_NAME} — ${translate('en', 'nav.writing')}`
+const FEED_DESCRIPTION = translate('en', 'writing.intro')
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;')
+
+/** Same URL as a `<Link>` to `postPath(post)` in English */
+const postUrl = (post: Post) => `${SITE_URL}/writing/${post.slug}/`
+
+/** Posts carry a date but no time; feeds get midnight UTC. */
+const timestamp = (date: string) => new Date(`${date}T00:00:00Z`)
+
+/** The newest post's date, so rebuilding without new posts produces identical feeds. */
+const lastUpdated = (posts: Post[]) => (posts.length > 0 ? timestamp(posts[0].date) : new Date())
+
+export function rssFeed(posts: Post[]): string {
+  const items = posts.map(
+    (post) => `    <item>
+      <title>${escapeXml(post.title)}</title>
+      <link>${postUrl(post)}</link>
+      <guid isPermaLink="true">${postUrl(post)}</guid>
+      <pubDate>${timestamp(post.date).toUTCString()}</pubDate>
+      <description>${escapeXml(post.summary)}</description>
+      <content:encoded>${escapeXml(post.body)}</content:encoded>
+${post.tags.map((tag) => `      <category>${escapeXml(tag)}</category>\n`).join('')}    </item>`,
+  )
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/">
+  <channel>
+    <title>${escapeXml(FEED_TITLE)}</title>
+    <link>${SITE_URL}/#writing</link>
+    <description>${escapeXml(FEED_DESCRIPTION)}</description>
+    <language>en</language>
+    <lastBuildDate>${lastUpdated(posts).toUTCString()}</lastBuildDate>
+    <atom:link href="${SITE_URL}/rss.xml" rel="self" type="application/rss+xml" />
+${items.join('\n')}
+  </channel>
+</rss>
+`
+}
+
+export function atomFeed(posts: Post[]): string {
+  const entries = posts.map(
+    (post) => `  <entry>
+    <title>${escapeXml(post.title)}</title>
+    <link href="${postUrl(post)}" />
+    <id>${postUrl(post)}</id>
+    <published>${timestamp(post.date).toISOString()}</published>
+    <updated>${timestamp(post.date).toISOString()}</updated>
+    <summary>${escapeXml(post.summary)}</summary>
+    <content type="html">${escapeXml(post.body)}</content>
+${post.tags.map((tag) => `    <category term="${escapeXml(tag)}" />\n`).join('')}  </entry>`,
+  )
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="en">
+  <title>${escapeXml(FEED_TITLE)}</title>
+  <subtitle>${escapeXml(FEED_DESCRIPTION)}</subtitle>
+  <link href="${SITE_URL}/atom.xml" rel="self" type="application/atom+xml" />
+  <link href="${SITE_URL}/#writing" />
+  <id>${SITE_URL}/</id>
+  <updated>${lastUpdated(posts).toISOString()}</updated>
+  <author>
+    <name>${escapeXml(SITE_NAME)}</name>
+  </author>
+${entries.join('\n')}
+</feed>
+`
+}
+
+/** Writes `rss.xml` and `atom.xml` for the posts in `content/writing/` into the build output. */
+export default function feeds(): Plugin {
+  let root = process.cwd()
+
+  return {
+    name: 'feeds',
+    apply: 'build',
+
+    configResolved(config) {
+      root = config.root
+    },
+
+    generateBundle() {
+      const { posts } = loadContent({ root })
+      this.emitFile({ type: 'asset', fileName: 'rss.xml', source: rssFeed(posts) })
+      this.emitFile({ type: 'asset', fileName: 'atom.xml', source: atomFeed(posts) })
+    },
+  }
+}
@@ -0,0 +1,111 @@
+import fs from 'node:fs'
+import type { Plugin } from 'vite'
+import type { RepoStats } from '../../src/content/types'
+import { githubSnapshotFile, loadContent, repoName } from '../content'
+
+const API = 'https://api.github.com'
+
+/** Milliseconds each request may take before the repository keeps its snapshot entry */
+const TIMEOUT = 10_000
+
+/** Anything shaped like `fetch` */
+export type Fetcher = (url: string, init: RequestInit) => Promise<Response>
+
+/** Stats snapshot, keyed by `owner/repo` */
+export type Snapshot = Record<string, RepoStats>
+
+export type GithubOptions = {
+  /** Defaults to the global `fetch` */
+  fetch?: Fetcher
+  /** Raises the API's rate limit; defaults to `GITHUB_TOKEN` */
+  token?: string
+}
+
+type RefreshOptions = GithubOptions & {
+  /** Project root; the snapshot lives in its `content/` */
+  root: string
+  /** Called once per repository whose stats couldn't be fetched */
+  warn?: (message: string) => void
+}
+
+/** Reads stars, languages, the newest commit and the latest release of `repo` (`owner/repo`). */
+export async function fetchRepoStats(repo: string, { fetch: fetcher = fetch, token }: GithubOptions = {}): Promise<RepoStats> {
+  const headers: Record<string, string> = { Accept: 'application/vnd.github+json' }
+  if (token) headers.Authorization = `Bearer ${token}`
+
+  const get = async <T>(endpoint: string): Promise<T | undefined> => {
+    const response = await fetcher(`${API}/repos/${repo}${endpoint}`, { headers, signal: AbortSignal.timeout(TIMEOUT) })
+    // Only a release can be missing; a missing repository is an error
+    if (response.status === 404 && endpoint === '/releases/latest') return undefined
+    if (!response.ok) throw new Error(`GET /repos/${repo}${endpoint} answered ${response.status}`)
+    return (await response.json()) as T
+  }
+
+  const [info, languages, commits, release] = await Promise.all([
+    get<{ stargazers_count: number }>(''),
+    get<Record<string, number>>('/languages'),
+    get<{ commit: { committer: { date: string } } }[]>('/commits?per_page=1'),
+    get<{ tag_name: string; published_at: string }>('/releases/latest'),
+  ])
+  if (!info || !languages || !commits?.[0]) throw new Error(`${repo} has no commits`)
+
+  return {
+    stars: info.stargazers_count,
+    languages: Object.entries(languages)
+      .map(([name, bytes]) => ({ name, bytes }))
+      .sort((a, b) => b.bytes - a.bytes),
+    lastCommit: commits[0].commit.committer.date,
+    ...(release && { latestRelease: { tag: release.tag_name, date: release.published_at } }),
+  }
+}
+
+/**
+ * Refetches the stats of every project's repository into `content/github.json`.
+ * A repository that can't be fetched (offline, rate-limited, timed out) keeps
+ * its entry from the current snapshot, so the build goes on with the last
+ * known numbers. The file is only rewritten when something changed.
+ */
+export async function refreshSnapshot({ root, warn = console.warn, ...options }: RefreshOptions): Promise<Snapshot> {
+  const { projects } = loadContent({ root })
+  const snapshot: Snapshot = {}
+
+  for (const project of projects) {
+    const repo = repoName(project.github)
+    if (!repo || repo in snapshot) continue
+    try {
+      snapshot[repo] = await fetchRepoStats(repo, options)
+    } catch (err) {
+      warn(`GitHub stats for ${repo} not refreshed (${(err as Error).message}); ${project.repo ? 'keeping the snapshot' : 'none in the snapshot yet'}`)
+      if (project.repo) snapshot[repo] = project.repo
+    }
+  }
+
+  const file = githubSnapshotFile(root)
+  const json = JSON.stringify(snapshot, null, 2) + '\n'
+  if (!fs.existsSync(file) || fs.readFileSync(file, 'utf8') !== json) fs.writeFileSync(file, json)
+  return snapshot
+}
+
+/**
+ * Refreshes the GitHub stats snapshot before the build reads `content/`, so
+ * the project cards show current numbers. Commit the updated
+ * `content/github.json`; it is what builds without network access use.
+ */
+export default function github(options: GithubOptions = {}): Plugin {
+  let root = process.cwd()
+  let warn: (message: string) => void = console.warn
+
+  return {
+    name: 'github',
+    apply: 'build',
+
+    configResolved(config) {
+      root = config.root
+      warn = (message) => config.logger.warn(message)
+    },
+
+    async buildStart() {
+      await refreshSnapshot({ root, warn, token: process.env.GITHUB_TOKEN, ...options })
+    },
+  }
+}
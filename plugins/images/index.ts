@@ -0,0 +1,98 @@
+import fs from 'node:fs'
+import path from 'node:path'
+import type { Plugin, ResolvedConfig } from 'vite'
+import type { Content, ImageAsset } from '../../src/content/types'
+import { contentDir, loadContent } from '../content'
+import { processImage, RASTER } from './process'
+
+const VIRTUAL_ID = 'virtual:images'
+const RESOLVED_ID = '\0' + VIRTUAL_ID
+
+/** Output directory of the variants, under the site's base URL */
+const IMAGE_DIR = 'img'
+
+/** Every raster `src` and `poster` in the content: image panels and carousels, raster diagrams, video posters, archived demos. */
+export function contentImages(content: Content): string[] {
+  const found = new Set<string>()
+  const walk = (value: unknown) => {
+    if (Array.isArray(value)) value.forEach(walk)
+    else if (value && typeof value === 'object') {
+      const { src, poster } = value as { src?: unknown; poster?: unknown }
+      for (const file of [src, poster]) if (typeof file === 'string' && RASTER.test(file)) found.add(file)
+      Object.values(value).forEach(walk)
+    }
+  }
+  walk(content)
+  return [...found].sort()
+}
+
+/**
+ * Serves `virtual:images`: size, placeholder and `srcset`s for every image
+ * `content/` references, generated with sharp into Vite's cache directory.
+ * `npm run dev` serves the variants from there; builds copy them to `dist/img/`.
+ */
+export default function images(): Plugin {
+  let config: ResolvedConfig
+  let cacheDir = ''
+  /** Variant files produced for the current content, relative to `cacheDir` */
+  let files = new Set<string>()
+
+  const load = async (): Promise<Record<string, ImageAsset>> => {
+    const options = { publicDir: config.publicDir, cacheDir, baseUrl: `${config.base}${IMAGE_DIR}/` }
+    const assets: Record<string, ImageAsset> = {}
+    files = new Set()
+    for (const src of contentImages(loadContent({ root: config.root }))) {
+      const processed = await processImage(src, options)
+      assets[src] = processed.asset
+      processed.files.forEach((file) => files.add(file))
+    }
+    return assets
+  }
+
+  return {
+    name: 'images',
+
+    configResolved(resolved) {
+      config = resolved
+      cacheDir = path.join(resolved.cacheDir, 'images')
+    },
+
+    resolveId(id) {
+      if (id === VIRTUAL_ID) return RESOLVED_ID
+    },
+
+    async load(id) {
+      if (id !== RESOLVED_ID) return
+      return `export const images = ${JSON.stringify(await load())}`
+    },
+
+    generateBundle() {
+      for (const file of files) {
+        this.emitFile({ type: 'asset', fileName: `${IMAGE_DIR}/${file}`, source: fs.readFileSync(path.join(cacheDir, file)) })
+      }
+    },
+
+    configureServer(server) {
+      const prefix = `${config.base}${IMAGE_DIR}/`
+      server.middlewares.use((req, res, next) => {
+        const file = req.url?.startsWith(prefix) && path.basename(req.url.slice(prefix.length).split('?')[0])
+        if (!file || !files.has(file)) return next()
+        res.setHeader('Content-Type', `image/${path.extname(file).slice(1).replace('jpg', 'jpeg')}`)
+        fs.createReadStream(path.join(cacheDir, file)).pipe(res)
+      })
+
+      // Content (a new image panel) and public/ (an edited image) both change the variants
+      const dirs = [contentDir(config.root), config.publicDir]
+      const reload = (file: string) => {
+        if (!dirs.some((dir) => file.startsWith(dir))) return
+        const mod = server.moduleGraph.getModuleById(RESOLVED_ID)
+        if (!mod) return
+        server.moduleGraph.invalidateModule(mod)
+        server.ws.send({ type: 'full-reload' })
+      }
+      server.watcher.on('change', reload)
+      server.watcher.on('add', reload)
+      server.watcher.on('unlink', reload)
+    },
+  }
+}
@@ -0,0 +1,95 @@
+import crypto from 'node:crypto'
+import fs from 'node:fs'
+import path from 'node:path'
+import sharp from 'sharp'
+import type { ImageAsset } from '../../src/content/types'
+
+/** Widths generated for every image, in pixels; an image narrower than one stops at its own width */
+export const WIDTHS = [480, 960, 1600]
+
+/** Width of the placeholder; scaled up by the browser, it is a blur of the image */
+const PLACEHOLDER_WIDTH = 16
+
+/** Modern formats, best first; each gets a `<source>` */
+const FORMATS = [
+  { ext: 'avif', type: 'image/avif', encode: (image: sharp.Sharp) => image.avif({ quality: 50 }) },
+  { ext: 'webp', type: 'image/webp', encode: (image: sharp.Sharp) => image.webp({ quality: 75 }) },
+] as const
+
+/** Encoders for the fallback, by the original's format */
+const FALLBACKS: Record<string, (image: sharp.Sharp) => sharp.Sharp> = {
+  png: (image) => image.png({ compressionLevel: 9, palette: true }),
+  jpeg: (image) => image.jpeg({ quality: 80, mozjpeg: true }),
+  webp: (image) => image.webp({ quality: 75 }),
+}
+
+/** Raster files this pipeline handles; SVGs are inlined by the content schema instead */
+export const RASTER = /\.(png|jpe?g|webp)$/i
+
+export type ProcessOptions = {
+  /** Absolute path of Vite's `public/` directory */
+  publicDir: string
+  /** Where variants are written; unchanged originals reuse them across builds */
+  cacheDir: string
+  /** URL the variants are served under, e.g. `/img/` */
+  baseUrl: string
+}
+
+export type ProcessedImage = {
+  asset: ImageAsset
+  /** Variant file names, relative to `cacheDir` and `baseUrl` */
+  files: string[]
+}
+
+/**
+ * Resizes `src` (a path under `public/`) to `WIDTHS` in AVIF, WebP and its
+ * own format, and reads its size and a tiny placeholder. Variant names carry
+ * a hash of the original, so a changed image gets new URLs and an unchanged
+ * one is not encoded again.
+ */
+export async function processImage(src: string, { publicDir, cacheDir, baseUrl }: ProcessOptions): Promise<ProcessedImage> {
+  const source = fs.readFileSync(path.join(publicDir, src))
+  const hash = crypto.createHash('sha256').update(source).digest('hex').slice(0, 8)
+  const name = path.basename(src, path.extname(src))
+
+  const { width = 0, height = 0, format = '' } = await sharp(source).metadata()
+  const fallback = FALLBACKS[format]
+  if (!fallback) throw new Error(`${src}: unsupported image format ${format}`)
+
+  // Never upscaled; the largest variant is the original's width, or the widest of WIDTHS below it
+  const largest = Math.min(width, WIDTHS[WIDTHS.length - 1])
+  const widths = [...WIDTHS.filter((w) => w < largest), largest]
+  const files: string[] = []
+
+  const variants = async (ext: string, encode: (image: sharp.Sharp) => sharp.Sharp) => {
+    const entries = []
+    for (const w of widths) {
+      const file = `${name}-${hash}-${w}.${ext}`
+      const out = path.join(cacheDir, file)
+      if (!fs.existsSync(out)) await encode(sharp(source).resize({ width: w })).toFile(out)
+      files.push(file)
+      entries.push(`${baseUrl}${file} ${w}w`)
+    }
+    return entries.join(', ')
+  }
+
+  fs.mkdirSync(cacheDir, { recursive: true })
+  const sources = []
+  for (const { ext, type, encode } of FORMATS) sources.push({ type, srcset: await variants(ext, encode) })
+  const fallbackExt = format === 'jpeg' ? 'jpg' : format
+  const srcset = await variants(fallbackExt, fallback)
+
+  const tiny = await sharp(source).resize({ width: PLACEHOLDER_WIDTH }).webp({ quality: 50 }).toBuffer()
+
+  return {
+    asset: {
+      width,
+      height,
+      placeholder: `data:image/webp;base64,${tiny.toString('base64')}`,
+      sources,
+      src: `${baseUrl}${name}-${hash}-${widths[widths.length - 1]}.${fallbackExt}`,
+      srcset,
+    },
+    files,
+  }
+}
@@ -0,0 +1,130 @@
+import fs from 'node:fs'
+import path from 'node:path'
+import { createServer, type Plugin, type ResolvedConfig } from 'vite'
+import type { PageMeta } from '../../src/meta'
+import { SITE_NAME, SITE_URL } from '../../src/site'
+import { CARD_SIZE, renderCard } from './og-image'
+import { robots, sitemap } from './sitemap'
+
+type ServerEntry = {
+  staticPaths: string[]
+  render: (path: string) => { html: string; meta: PageMeta }
+}
+
+const SERVER_ENTRY = '/src/entry-server.tsx'
+
+/** Path rendered into `404.html`; it matches no route, so the app shows its not-found page. */
+const NOT_FOUND_PATH = '/404'
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+
+/** `<` can't close the script early once escaped, and JSON parsers read `\u003c` back as `<` */
+const jsonLd = (data: object) => `<script type="application/ld+json">${JSON.stringify(data).replace(/</g, '\\u003c')}</script>`
+
+/** Open Graph and Twitter tags, so shared links unfurl with the page's title, description and card. */
+function socialTags(meta: PageMeta): string[] {
+  if (!meta.canonical || !meta.card) return []
+  const image = SITE_URL + meta.card.path
+  const property = (name: string, content: string) => `<meta property="${name}" content="${escapeHtml(content)}" />`
+  const named = (name: string, content: string) => `<meta name="${name}" content="${escapeHtml(content)}" />`
+  return [
+    property('og:type', meta.type),
+    property('og:site_name', SITE_NAME),
+    property('og:title', meta.title),
+    property('og:description', meta.description),
+    property('og:url', meta.canonical),
+    property('og:locale', meta.lang),
+    property('og:image', image),
+    property('og:image:width', String(CARD_SIZE.width)),
+    property('og:image:height', String(CARD_SIZE.height)),
+    property('og:image:alt', meta.card.heading),
+    named('twitter:card', 'summary_large_image'),
+    named('twitter:title', meta.title),
+    named('twitter:description', meta.description),
+    named('twitter:image', image),
+  ]
+}
+
+function fillTemplate(template: string, path: string, { html, meta }: ReturnType<ServerEntry['render']>): string {
+  const head = [
+    `<title>${escapeHtml(meta.title)}</title>`,
+    `<meta name="description" content="${escapeHtml(meta.description)}" />`,
+    ...(meta.canonical ? [`<link rel="canonical" href="${escapeHtml(meta.canonical)}" />`] : []),
+    ...meta.alternates.map(({ hreflang, href }) => `<link rel="alternate" hreflang="${hreflang}" href="${escapeHtml(href)}" />`),
+    ...socialTags(meta),
+    ...meta.structuredData.map(jsonLd),
+  ]
+  return template
+    .replace(/<html lang="[^"]*">/, `<html lang="${meta.lang}">`)
+    .replace(/<title>.*?<\/title>/, head.join('\n    '))
+    .replace('<div id="root"></div>', `<div id="root" data-path="${escapeHtml(path)}">${html}</div>`)
+}
+
+function write(file: string, data: string | Buffer) {
+  fs.mkdirSync(path.dirname(file), { recursive: true })
+  fs.writeFileSync(file, data)
+}
+
+function outputFile(outDir: string, route: string): string {
+  if (route === NOT_FOUND_PATH) return path.join(outDir, '404.html')
+  return path.join(outDir, route, 'index.html')
+}
+
+/**
+ * Renders every path in `staticPaths` to `dist/<path>/index.html` after the
+ * client build, plus a `404.html` that GitHub Pages serves for unknown URLs.
+ * The client bundle hydrates the prerendered markup. Each page also gets its
+ * Open Graph image under `dist/og/`, and every page is listed in
+ * `sitemap.xml`, which `robots.txt` points to.
+ */
+export default function prerender(): Plugin {
+  let config: ResolvedConfig
+  let failed = false
+
+  return {
+    name: 'prerender',
+    apply: 'build',
+
+    configResolved(resolved) {
+      config = resolved
+    },
+
+    buildEnd(error) {
+      failed = Boolean(error)
+    },
+
+    // Rollup calls this even when the build failed; the error is already reported
+    async closeBundle() {
+      if (failed || config.build.ssr) return
+
+      const outDir = path.resolve(config.root, config.build.outDir)
+      const template = fs.readFileSync(path.join(outDir, 'index.html'), 'utf8')
+
+      const server = await createServer({
+        root: config.root,
+        configFile: config.configFile,
+        appType: 'custom',
+        logLevel: 'error',
+        server: { middlewareMode: true, hmr: false },
+      })
+
+      try {
+        const entry = (await server.ssrLoadModule(SERVER_ENTRY)) as ServerEntry
+        const pages: PageMeta[] = []
+        for (const route of [...entry.staticPaths, NOT_FOUND_PATH]) {
+          const rendered = entry.render(route)
+          write(outputFile(outDir, route), fillTemplate(template, route, rendered))
+          const { meta } = rendered
+          if (meta.card) write(path.join(outDir, meta.card.path), await renderCard(meta.card, meta.description))
+          pages.push(meta)
+        }
+        write(path.join(outDir, 'sitemap.xml'), sitemap(pages))
+        write(path.join(outDir, 'robots.txt'), robots())
+        config.logger.info(`prerendered ${entry.staticPaths.length} pages and 404.html, with Open Graph images and sitemap.xml`)
+      } finally {
+        await server.close()
+      }
+    },
+  }
+}
@@ -0,0 +1,83 @@
+import fs from 'node:fs'
+import { createRequire } from 'node:module'
+import { createElement, type CSSProperties, type ReactNode } from 'react'
+import satori from 'satori'
+import { Resvg } from '@resvg/resvg-js'
+import type { SocialCard } from '../../src/meta'
+import { SITE_URL } from '../../src/site'
+
+/** Open Graph's recommended size, for `og:image:width` and `og:image:height` too */
+export const CARD_SIZE = { width: 1200, height: 630 }
+
+/** Tags past this many are left off the card */
+const MAX_TAGS = 5
+
+/** The dark theme's tokens from src/index.css */
+const colors = {
+  canvas: 'rgb(11 15 25)',
+  grid: 'rgb(51 65 85 / 0.3)',
+  line: 'rgb(51 65 85)',
+  heading: 'rgb(241 245 249)',
+  body: 'rgb(203 213 225)',
+  faint: 'rgb(100 116 139)',
+  accent: 'rgb(212 149 166)',
+}
+
+const require = createRequire(import.meta.url)
+
+/** The site's monospace face, read from the npm package so the build needs no network */
+const font = (weight: 400 | 700) => ({
+  name: 'JetBrains Mono',
+  data: fs.readFileSync(require.resolve(`@fontsource/jetbrains-mono/files/jetbrains-mono-latin-${weight}-normal.woff`)),
+  weight,
+  style: 'normal' as const,
+})
+
+const fonts = [font(400), font(700)]
+
+const box = (style: CSSProperties, ...children: ReactNode[]) => createElement('div', { style: { display: 'flex', ...style } }, ...children)
+
+function card({ eyebrow, heading, tags }: SocialCard, description: string) {
+  return box(
+    {
+      width: '100%',
+      height: '100%',
+      flexDirection: 'column',
+      justifyContent: 'space-between',
+      padding: 72,
+      fontFamily: 'JetBrains Mono',
+      color: colors.body,
+      backgroundColor: colors.canvas,
+      backgroundImage: `linear-gradient(${colors.grid} 1px, transparent 1px), linear-gradient(90deg, ${colors.grid} 1px, transparent 1px)`,
+      backgroundSize: '40px 40px',
+    },
+    box(
+      { justifyContent: 'space-between', alignItems: 'center' },
+      box({ fontSize: 36, fontWeight: 700, color: colors.heading }, 'CS.'),
+      box({ fontSize: 22, letterSpacing: 4, color: colors.accent }, eyebrow),
+    ),
+    box(
+      { flexDirection: 'column' },
+      box({ fontSize: heading.length > 40 ? 52 : 64, fontWeight: 700, lineHeight: 1.15, color: colors.heading }, heading),
+      // Long descriptions end in an ellipsis on the third line
+      box({ display: 'block', lineClamp: 3, marginTop: 28, fontSize: 26, lineHeight: 1.5 }, description),
+    ),
+    box(
+      { justifyContent: 'space-between', alignItems: 'flex-end', borderTop: `1px solid ${colors.line}`, paddingTop: 28 },
+      box(
+        { gap: 12, flexWrap: 'wrap', maxWidth: 820 },
+        ...tags
+          .slice(0, MAX_TAGS)
+          .map((tag) => box({ padding: '6px 14px', fontSize: 18, color: colors.accent, border: `1px solid ${colors.accent}`, borderRadius: 6 }, tag)),
+      ),
+      box({ fontSize: 22, color: colors.faint }, new URL(SITE_URL).host),
+    ),
+  )
+}
+
+/** The Open Graph image for a page: its card drawn in the site's dark theme, as a 1200×630 PNG. */
+export async function renderCard(socialCard: SocialCard, description: string): Promise<Buffer> {
+  const svg = await satori(card(socialCard, description), { ...CARD_SIZE, fonts })
+  // satori draws text as paths, so resvg needs no fonts of its own
+  return new Resvg(svg, { font: { loadSystemFonts: false } }).render().asPng()
+}
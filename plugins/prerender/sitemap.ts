@@ -0,0 +1,31 @@
+import type { PageMeta } from '../../src/meta'
+import { SITE_URL } from '../../src/site'
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;')
+
+/** Every page with a canonical URL, each listing its other locales. */
+export function sitemap(pages: PageMeta[]): string {
+  const urls = pages.flatMap(({ canonical, alternates }) =>
+    canonical
+      ? [
+          `  <url>
+    <loc>${escapeXml(canonical)}</loc>
+${alternates.map(({ hreflang, href }) => `    <xhtml:link rel="alternate" hreflang="${hreflang}" href="${escapeXml(href)}" />\n`).join('')}  </url>`,
+        ]
+      : [],
+  )
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:xhtml="http://www.w3.org/1999/xhtml">
+${urls.join('\n')}
+</urlset>
+`
+}
+
+export function robots(): string {
+  return `User-agent: *
+Allow: /
+
+Sitemap: ${SITE_URL}/sitemap.xml
+`
+}
@@ -0,0 +1,60 @@
+// Runs axe (https://github.com/dequelabs/axe-core) over every prerendered page
+// in dist/, which between them render every section in every locale. Exits
+// non-zero if any page has a violation. Run with `npm run check:a11y`.
+//
+// jsdom does no layout, so rules that need it (color contrast) are skipped;
+// check those in a browser.
+
+import fs from 'node:fs'
+import path from 'node:path'
+import axe from 'axe-core'
+import { JSDOM, VirtualConsole } from 'jsdom'
+
+const DIST = path.resolve('dist')
+const SKIPPED_RULES = ['color-contrast']
+
+function pages(dir) {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const file = path.join(dir, entry.name)
+    if (entry.isDirectory()) return pages(file)
+    return entry.name.endsWith('.html') ? [file] : []
+  })
+}
+
+if (!fs.existsSync(DIST)) {
+  console.error('dist/ not found; run `npm run build` first')
+  process.exit(1)
+}
+
+let failures = 0
+for (const file of pages(DIST).sort()) {
+  const route = '/' + path.relative(DIST, file).replace(/(^|\/)index\.html$/, '')
+  // The page's own scripts stay off (`outside-only` only lets axe in): this
+  // checks the HTML visitors get before the app loads
+  const dom = new JSDOM(fs.readFileSync(file, 'utf8'), {
+    url: `https://coursecoder.com${route}`,
+    runScripts: 'outside-only',
+    virtualConsole: new VirtualConsole(),
+  })
+  dom.window.eval(axe.source)
+  const results = await dom.window.axe.run(dom.window.document, {
+    rules: Object.fromEntries(SKIPPED_RULES.map((id) => [id, { enabled: false }])),
+  })
+  dom.window.close()
+
+  if (results.violations.length === 0) {
+    console.log(`✓ ${route} (${results.passes.length} rules passed)`)
+    continue
+  }
+  failures += results.violations.length
+  console.log(`✗ ${route}`)
+  for (const violation of results.violations) {
+    console.log(`  - ${violation.id}: ${violation.help} (${violation.helpUrl})`)
+    for (const node of violation.nodes) console.log(`      ${node.target.join(' ')}`)
+  }
+}
+
+if (failures > 0) {
+  console.error(`\n${failures} accessibility violation${failures === 1 ? '' : 's'}`)
+  process.exit(1)
+}
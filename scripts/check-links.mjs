@@ -0,0 +1,45 @@
+// Requests every outbound link on the site (project repositories and demos,
+// contact links, links in posts and write-ups, the constants in src/site.ts)
+// and reports the insecure, bare-IP, unreachable and broken ones. Exits
+// non-zero if any link has a problem, except demos already marked
+// `liveStatus: down`. Run with `npm run check:links`; it needs network access.
+//
+// The checks live in scripts/links.ts, loaded through Vite so they can read
+// content/ the way the build does.
+
+import path from 'node:path'
+import { createServer } from 'vite'
+
+const root = path.resolve('.')
+const server = await createServer({
+  root,
+  configFile: false,
+  appType: 'custom',
+  logLevel: 'error',
+  server: { middlewareMode: true, hmr: false },
+})
+
+let failures = 0
+try {
+  const { checkLinks, siteLinks } = await server.ssrLoadModule('/scripts/links.ts')
+  const results = await checkLinks(siteLinks(root))
+
+  for (const result of results.sort((a, b) => a.url.localeCompare(b.url))) {
+    const answer = result.status ? `HTTP ${result.status}` : result.error
+    if (result.problems.length === 0) {
+      console.log(`✓ ${result.url} (${answer}${result.retired ? '; marked down but answering, set liveStatus: up?' : ''})`)
+      continue
+    }
+    if (!result.retired) failures++
+    console.log(`${result.retired ? '-' : '✗'} ${result.url} (${answer})${result.retired ? ' marked down' : ''}`)
+    console.log(`    ${result.problems.join(', ')}`)
+    for (const source of result.sources) console.log(`    in ${source}`)
+  }
+} finally {
+  await server.close()
+}
+
+if (failures > 0) {
+  console.error(`\n${failures} link${failures === 1 ? '' : 's'} with problems`)
+  process.exit(1)
+}
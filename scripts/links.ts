@@ -0,0 +1,117 @@
+import type { Content } from '../src/content/types'
+import { loadContent } from '../plugins/content'
+import { GITHUB_PROFILE, SITE_URL } from '../src/site'
+
+/** A URL the site links out to, with every place it appears */
+export type OutboundLink = {
+  url: string
+  /** Dotted paths into the content, e.g. `projects.mtat.live`, or `src/site.ts` constants */
+  sources: string[]
+  /** A demo whose project is marked `liveStatus: down`; failing is expected */
+  retired: boolean
+}
+
+export type LinkProblem =
+  /** Plain `http:`, which browsers flag and which leaks the visit */
+  | 'insecure'
+  /** A bare IP address, which stops working when the server behind it is replaced */
+  | 'bare-ip'
+  /** No answer: DNS, refused connection, TLS or timeout */
+  | 'unreachable'
+  /** Answered with an error status */
+  | 'broken'
+
+export type LinkResult = OutboundLink & {
+  /** Final status after redirects, when the server answered */
+  status?: number
+  /** Why the request failed, when it did */
+  error?: string
+  problems: LinkProblem[]
+}
+
+/** Requests `url` and resolves to the response status; rejects when there is no response. */
+export type HttpClient = (url: string, method: 'HEAD' | 'GET') => Promise<number>
+
+/** Statuses some sites give scripts but not browsers (LinkedIn answers 999); the page itself is there */
+const BOT_BLOCKED = new Set([401, 403, 429, 999])
+
+/** Servers that don't implement HEAD answer one of these, and get a GET instead */
+const NO_HEAD = new Set([405, 501])
+
+const URL_VALUE = /^https?:\/\/\S+$/
+/** Links inside Markdown rendered to HTML */
+const HREF = /href="(https?:\/\/[^"]+)"/g
+const IP_HOST = /^(\d{1,3}\.){3}\d{1,3}$|^\[[\da-f:]+\]$/i
+
+/** `fetch`, following redirects, giving up after `timeout` milliseconds. */
+export function fetchClient(timeout = 10_000): HttpClient {
+  return async (url, method) => {
+    const response = await fetch(url, { method, redirect: 'follow', signal: AbortSignal.timeout(timeout) })
+    // Only the status matters
+    await response.body?.cancel()
+    return response.status
+  }
+}
+
+/**
+ * Every outbound URL in the loaded content: any string value that is a URL,
+ * and every `href` in rendered Markdown. Array entries with a `slug` are
+ * named by it, so sources read `projects.mtat.live` rather than `projects[1].live`.
+ */
+export function outboundLinks(content: Content, extra: Record<string, string> = {}): OutboundLink[] {
+  const links = new Map<string, OutboundLink>()
+  const add = (url: string, source: string) => {
+    const link = links.get(url) ?? { url, sources: [], retired: false }
+    if (!link.sources.includes(source)) link.sources.push(source)
+    links.set(url, link)
+  }
+
+  const walk = (value: unknown, path: string) => {
+    if (typeof value === 'string') {
+      if (URL_VALUE.test(value)) add(value, path)
+      else for (const [, href] of value.matchAll(HREF)) add(href.replace(/&amp;/g, '&'), path)
+    } else if (Array.isArray(value)) {
+      value.forEach((item, i) => walk(item, item && typeof item === 'object' && 'slug' in item ? `${path}.${item.slug}` : `${path}[${i}]`))
+    } else if (value && typeof value === 'object') {
+      for (const [key, child] of Object.entries(value)) walk(child, path ? `${path}.${key}` : key)
+    }
+  }
+
+  walk(content, '')
+  for (const [source, url] of Object.entries(extra)) add(url, source)
+
+  for (const project of content.projects) {
+    if (project.live && project.liveStatus === 'down') links.get(project.live)!.retired = true
+  }
+  return [...links.values()]
+}
+
+/** Requests each link with `client` and flags the insecure, bare-IP, unreachable and broken ones. */
+export async function checkLinks(links: OutboundLink[], client: HttpClient = fetchClient()): Promise<LinkResult[]> {
+  return Promise.all(
+    links.map(async (link): Promise<LinkResult> => {
+      const { protocol, hostname } = new URL(link.url)
+      const problems: LinkProblem[] = []
+      if (protocol === 'http:') problems.push('insecure')
+      if (IP_HOST.test(hostname)) problems.push('bare-ip')
+
+      try {
+        let status = await client(link.url, 'HEAD')
+        if (NO_HEAD.has(status)) status = await client(link.url, 'GET')
+        if (status >= 400 && !BOT_BLOCKED.has(status)) problems.push('broken')
+        return { ...link, status, problems }
+      } catch (err) {
+        const { message, cause } = err as Error & { cause?: Error }
+        return { ...link, error: cause?.message ?? message, problems: [...problems, 'unreachable'] }
+      }
+    }),
+  )
+}
+
+/** Every outbound link on the site: the content under `root`, plus the constants in src/site.ts. */
+export function siteLinks(root: string): OutboundLink[] {
+  return outboundLinks(loadContent({ root }), {
+    'src/site.ts SITE_URL': SITE_URL,
+    'src/site.ts GITHUB_PROFILE': GITHUB_PROFILE,
+  })
+}
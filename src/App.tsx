@@ -1,50 +1,67 @@
-import { useEffect } from 'react'
+import { useMemo, useState } from 'react'
 import Navigation from './components/Navigation'
 import CustomCursor from './components/CustomCursor'
+import CommandPalette from './components/CommandPalette'
 import LoadingScreen from './sections/LoadingScreen'
-import Hero from './sections/Hero'
-import About from './sections/About'
-import Experience from './sections/Experience'
-import Toolkit from './sections/Toolkit'
-import Projects from './sections/Projects'
-import Contact from './sections/Contact'
 import Footer from './sections/Footer'
+import Home from './pages/Home'
+import ProjectPage from './pages/ProjectPage'
+import PostPage from './pages/PostPage'
+import NotFound from './pages/NotFound'
+import { Router, useLocale, usePathname, useRoute } from './router'
+import { pageMeta, useDocumentMeta } from './meta'
+import { useT } from './hooks/useT'
+import { useSmoothScroll } from './hooks/useSmoothScroll'
 
-function App() {
-  useEffect(() => {
-    // Reveal on scroll
-    const observer = new IntersectionObserver(
-      (entries) => {
-        entries.forEach((entry) => {
-          if (entry.isIntersecting) {
-            entry.target.classList.add('visible')
-          }
-        })
-      },
-      { threshold: 0.1 }
-    )
+function Page() {
+  const route = useRoute()
+  const path = usePathname()
+  const locale = useLocale()
+  useDocumentMeta(useMemo(() => pageMeta(path, locale), [path, locale]))
 
-    document.querySelectorAll('.reveal-section, .stagger-cards').forEach((el) => {
-      observer.observe(el)
-    })
+  switch (route.name) {
+    case 'home':
+      return <Home />
+    case 'project':
+      return <ProjectPage project={route.project} />
+    case 'post':
+      return <PostPage post={route.post} />
+    case 'not-found':
+      return <NotFound />
+  }
+}
 
-    return () => observer.disconnect()
-  }, [])
+function Layout() {
+  const t = useT()
+  const [paletteOpen, setPaletteOpen] = useState(false)
+  useSmoothScroll()
 
   return (
-    <div className="min-h-screen bg-cream-100">
+    <div className="min-h-screen bg-canvas">
+      <a
+        href="#main"
+        className="sr-only focus:not-sr-only focus:fixed focus:top-4 focus:left-4 focus:z-[10001] focus:px-4 focus:py-2 focus:bg-accent focus:text-accent-contrast focus:font-mono focus:text-xs focus:rounded"
+      >
+        {t('nav.skip')}
+      </a>
       <CustomCursor />
       <LoadingScreen />
-      <Navigation />
-      <Hero />
-      <About />
-      <Experience />
-      <Toolkit />
-      <Projects />
-      <Contact />
+      <Navigation onSearch={() => setPaletteOpen(true)} />
+      <CommandPalette open={paletteOpen} onOpenChange={setPaletteOpen} />
+      <main id="main" tabIndex={-1} className="focus:outline-none">
+        <Page />
+      </main>
       <Footer />
     </div>
   )
 }
 
+function App({ path }: { path: string }) {
+  return (
+    <Router initialPath={path}>
+      <Layout />
+    </Router>
+  )
+}
+
 export default App
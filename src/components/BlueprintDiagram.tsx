@@ -0,0 +1,143 @@
+import type { AboutCard } from '../content'
+import { gsap, REVEAL_START } from '../lib/motion'
+import { useScrollScene } from '../hooks/useScrollScene'
+import Icon from './Icon'
+import { useT } from '../hooks/useT'
+
+const SIZE = 400
+const CENTER = SIZE / 2
+const HUB_RADIUS = 40
+const NODE_RADIUS = 25
+/** Distance from the center to each node's center */
+const ORBIT = 120
+/** Distance from the center to each node's label */
+const LABEL_ORBIT = ORBIT + NODE_RADIUS + 20
+
+const MONO = { fontFamily: 'JetBrains Mono, monospace' }
+
+/** Point at `radius` from the center, `index` of `count` steps clockwise from 12 o'clock. */
+function polar(index: number, count: number, radius: number) {
+  const angle = (index / count) * 2 * Math.PI - Math.PI / 2
+  return { x: CENTER + radius * Math.cos(angle), y: CENTER + radius * Math.sin(angle) }
+}
+
+type BlueprintDiagramProps = {
+  nodes: Pick<AboutCard, 'icon' | 'node'>[]
+  /** Index of the highlighted node, or null */
+  active: number | null
+  onActiveChange: (index: number | null) => void
+  /** Id of the element describing each node, e.g. its feature card */
+  describedBy: (index: number) => string
+}
+
+/**
+ * The About section's blueprint: one node per feature card, spaced evenly
+ * around a central hub. The connecting lines draw in one after another when
+ * the figure scrolls into view, and are simply there under reduced motion.
+ */
+export default function BlueprintDiagram({ nodes, active, onActiveChange, describedBy }: BlueprintDiagramProps) {
+  const t = useT()
+  const ref = useScrollScene<SVGSVGElement>((svg) => {
+    // The lines have `pathLength={1}`, so a dash offset of 1 hides the whole line
+    gsap
+      .timeline({ scrollTrigger: { trigger: svg, start: REVEAL_START, once: true }, delay: 0.3 })
+      .fromTo('.blueprint-line', { strokeDashoffset: 1 }, { strokeDashoffset: 0, duration: 0.8, ease: 'power2.out', stagger: 0.15 })
+  })
+
+  return (
+    <svg ref={ref} viewBox={`0 0 ${SIZE} ${SIZE}`} className="w-full h-full" stroke="currentColor" strokeWidth="1">
+      {/* Outer frame */}
+      <rect x="20" y="20" width="360" height="360" className="text-faint" fill="none" />
+
+      {/* Inner grid */}
+      {[100, 200, 300].map((at) => (
+        <g key={at} className="text-line">
+          <line x1="20" y1={at} x2="380" y2={at} />
+          <line x1={at} y1="20" x2={at} y2="380" />
+        </g>
+      ))}
+
+      {/* Central hub */}
+      <circle cx={CENTER} cy={CENTER} r={HUB_RADIUS} className="text-accent" strokeWidth="2" fill="none" />
+      <circle cx={CENTER} cy={CENTER} r={HUB_RADIUS - 10} className="text-accent" fill="none" strokeOpacity="0.6" />
+      <circle cx={CENTER} cy={CENTER} r="5" className="text-accent" fill="currentColor" />
+
+      {nodes.map((node, i) => {
+        const from = polar(i, nodes.length, HUB_RADIUS)
+        const to = polar(i, nodes.length, ORBIT - NODE_RADIUS)
+        const center = polar(i, nodes.length, ORBIT)
+        const label = polar(i, nodes.length, LABEL_ORBIT)
+        const isActive = active === i
+        return (
+          <g
+            key={i}
+            tabIndex={0}
+            role="img"
+            aria-label={t(node.node)}
+            aria-describedby={describedBy(i)}
+            onMouseEnter={() => onActiveChange(i)}
+            onMouseLeave={() => onActiveChange(null)}
+            onFocus={() => onActiveChange(i)}
+            onBlur={() => onActiveChange(null)}
+            className="cursor-pointer outline-none group"
+          >
+            {/* Connection line */}
+            <line
+              x1={from.x}
+              y1={from.y}
+              x2={to.x}
+              y2={to.y}
+              pathLength={1}
+              className="blueprint-line text-accent"
+              strokeOpacity={isActive ? 1 : 0.7}
+              strokeWidth={isActive ? 2 : 1}
+            />
+
+            {/* Node */}
+            <circle
+              cx={center.x}
+              cy={center.y}
+              r={NODE_RADIUS}
+              className={`transition-colors ${isActive ? 'text-accent' : 'text-faint'}`}
+              fill={isActive ? 'rgb(var(--color-accent) / 0.1)' : 'none'}
+              strokeWidth={isActive ? 2 : 1}
+            />
+            {/* Focus ring */}
+            <circle cx={center.x} cy={center.y} r={NODE_RADIUS + 5} className="text-accent opacity-0 group-focus-visible:opacity-100" fill="none" strokeDasharray="3 3" />
+            <Icon
+              name={node.icon}
+              x={center.x - 10}
+              y={center.y - 10}
+              width={20}
+              height={20}
+              strokeWidth={1.5}
+              className={`transition-colors ${isActive ? 'text-accent' : 'text-faint'}`}
+              aria-hidden="true"
+            />
+
+            {/* Label */}
+            <text
+              x={label.x}
+              y={label.y}
+              textAnchor="middle"
+              dominantBaseline="middle"
+              stroke="none"
+              fill="currentColor"
+              fontSize="10"
+              className={`transition-colors ${isActive ? 'text-accent' : 'text-muted'}`}
+              style={MONO}
+            >
+              {t(node.node)}
+            </text>
+          </g>
+        )
+      })}
+
+      {/* Decorative corner brackets */}
+      <path d="M 30 30 L 50 30 L 50 35 L 35 35 L 35 50 L 30 50 Z" className="text-accent" fill="currentColor" />
+      <path d="M 370 30 L 350 30 L 350 35 L 365 35 L 365 50 L 370 50 Z" className="text-accent" fill="currentColor" />
+      <path d="M 30 370 L 50 370 L 50 365 L 35 365 L 35 350 L 30 350 Z" className="text-accent" fill="currentColor" />
+      <path d="M 370 370 L 350 370 L 350 365 L 365 365 L 365 350 L 370 350 Z" className="text-accent" fill="currentColor" />
+    </svg>
+  )
+}
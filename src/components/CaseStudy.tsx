@@ -0,0 +1,98 @@
+import type { CaseStudyMetric, Project } from '../content'
+import { useT } from '../hooks/useT'
+import { useContentLang } from '../hooks/useContentLang'
+import Reveal from './Reveal'
+
+type SectionId = 'overview' | 'problem' | 'constraints' | 'approach' | 'architecture' | 'outcome' | 'metrics' | 'lessons'
+
+type Section = {
+  /** Element id, and `caseStudy.<id>` is the heading's message key */
+  id: SectionId
+  content: JSX.Element
+}
+
+const pad = (n: number) => String(n).padStart(2, '0')
+
+function Prose({ html }: { html: string }) {
+  return <div className="writeup" dangerouslySetInnerHTML={{ __html: html }} />
+}
+
+function List({ items }: { items: string[] }) {
+  return (
+    <div className="writeup">
+      <ul>
+        {items.map((item, i) => (
+          <li key={i} dangerouslySetInnerHTML={{ __html: item }} />
+        ))}
+      </ul>
+    </div>
+  )
+}
+
+function Metrics({ metrics }: { metrics: CaseStudyMetric[] }) {
+  return (
+    <dl className="grid sm:grid-cols-2 lg:grid-cols-3 gap-4">
+      {metrics.map((metric) => (
+        <div key={metric.label} className="p-4 border border-line bg-surface shadow-sm rounded-lg">
+          <dt className="font-mono text-xs text-faint tracking-wider uppercase mb-2">{metric.label}</dt>
+          <dd className="font-mono text-2xl font-semibold text-accent">{metric.value}</dd>
+          {metric.note && <dd className="text-xs text-muted mt-1">{metric.note}</dd>}
+        </div>
+      ))}
+    </dl>
+  )
+}
+
+/** Builds the sections present on a project, in reading order. */
+function sectionsFor({ writeup, caseStudy = {} }: Project): Section[] {
+  const sections: Section[] = [{ id: 'overview', content: <Prose html={writeup} /> }]
+  const add = (id: SectionId, content: JSX.Element) => sections.push({ id, content })
+
+  if (caseStudy.problem) add('problem', <Prose html={caseStudy.problem} />)
+  if (caseStudy.constraints) add('constraints', <List items={caseStudy.constraints} />)
+  if (caseStudy.approach) add('approach', <Prose html={caseStudy.approach} />)
+  if (caseStudy.architecture) add('architecture', <Prose html={caseStudy.architecture} />)
+  if (caseStudy.outcome) add('outcome', <Prose html={caseStudy.outcome} />)
+  if (caseStudy.metrics) add('metrics', <Metrics metrics={caseStudy.metrics} />)
+  if (caseStudy.lessons) add('lessons', <List items={caseStudy.lessons} />)
+
+  return sections
+}
+
+/** Long-form case-study layout with a table of contents. */
+export default function CaseStudy({ project }: { project: Project }) {
+  const t = useT()
+  const lang = useContentLang()
+  const sections = sectionsFor(project)
+
+  return (
+    <div className="grid lg:grid-cols-[180px_minmax(0,1fr)] gap-10 lg:gap-16">
+      {/* Table of contents */}
+      <nav aria-label={t('caseStudy.contentsLabel')} className="lg:sticky lg:top-24 self-start">
+        <div className="font-mono text-xs text-faint tracking-wider mb-3">{t('caseStudy.contents')}</div>
+        <ol className="space-y-2 border-l border-line pl-4">
+          {sections.map((section, i) => (
+            <li key={section.id}>
+              <a href={`#${section.id}`} className="font-mono text-xs text-body hover:text-accent transition-colors">
+                <span className="text-accent/70 mr-2">{pad(i + 1)}</span>
+                {t(`caseStudy.${section.id}`)}
+              </a>
+            </li>
+          ))}
+        </ol>
+      </nav>
+
+      <div className="space-y-14">
+        {sections.map((section, i) => (
+          <Reveal as="section" key={section.id} id={section.id} className="scroll-mt-24">
+            <h2 className="flex items-baseline gap-3 font-mono text-xl font-semibold text-heading mb-5">
+              <span className="text-xs text-accent">{pad(i + 1)}</span>
+              {t(`caseStudy.${section.id}`)}
+            </h2>
+            <div lang={lang}>{section.content}</div>
+          </Reveal>
+        ))}
+      </div>
+    </div>
+  )
+}
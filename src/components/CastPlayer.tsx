@@ -0,0 +1,199 @@
+import { useCallback, useEffect, useRef, useState, type CSSProperties, type KeyboardEvent } from 'react'
+import { Pause, Play } from 'lucide-react'
+import { parseCast, type Cast } from '../lib/asciicast'
+import { AnsiScreen, type CellStyle, type Segment } from '../lib/ansiScreen'
+import { useT } from '../hooks/useT'
+
+const SPEEDS = [0.5, 1, 1.5, 2, 4]
+
+/** Seconds skipped by the arrow keys */
+const SEEK_STEP = 5
+
+// Default colors, used when an inverse-video cell has no explicit color
+const FOREGROUND = '#cbd5e1'
+const BACKGROUND = '#020617'
+
+function cellCss(style: CellStyle): CSSProperties {
+  const color = style.inverse ? style.bg ?? BACKGROUND : style.fg
+  const backgroundColor = style.inverse ? style.fg ?? FOREGROUND : style.bg
+  return {
+    color,
+    backgroundColor,
+    fontWeight: style.bold ? 700 : undefined,
+    fontStyle: style.italic ? 'italic' : undefined,
+    textDecoration: style.underline ? 'underline' : undefined,
+    opacity: style.dim ? 0.6 : undefined,
+  }
+}
+
+const formatTime = (seconds: number) => {
+  const s = Math.floor(seconds)
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`
+}
+
+/**
+ * Plays an asciicast v2 recording served from `public/`, keeping its original
+ * timing. The recording is fetched when the player nears the viewport and
+ * shows its last frame until played.
+ */
+export default function CastPlayer({ src, alt, speed: initialSpeed = 1 }: { src: string; alt: string; speed?: number }) {
+  const t = useT()
+  const ref = useRef<HTMLDivElement>(null)
+  const [cast, setCast] = useState<Cast | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [frame, setFrame] = useState<Segment[][]>([])
+  const [time, setTime] = useState(0)
+  const [playing, setPlaying] = useState(false)
+  const [speed, setSpeed] = useState(initialSpeed)
+
+  const screen = useRef<AnsiScreen | null>(null)
+  const nextEvent = useRef(0)
+  const timeRef = useRef(0)
+
+  /** Applies every event up to `target`, replaying from the start when seeking backwards. */
+  const advanceTo = useCallback((loaded: Cast, target: number) => {
+    if (!screen.current || target < timeRef.current) {
+      screen.current = new AnsiScreen(loaded.width, loaded.height)
+      nextEvent.current = 0
+    }
+    const start = nextEvent.current
+    while (nextEvent.current < loaded.events.length && loaded.events[nextEvent.current].time <= target) {
+      screen.current.write(loaded.events[nextEvent.current].data)
+      nextEvent.current++
+    }
+    if (nextEvent.current !== start || nextEvent.current === 0) setFrame(screen.current.segments())
+    timeRef.current = target
+    setTime(target)
+  }, [])
+
+  // Fetch the recording once the player is close to the viewport
+  useEffect(() => {
+    const el = ref.current
+    if (!el) return
+    let cancelled = false
+
+    const observer = new IntersectionObserver(
+      ([entry]) => {
+        if (!entry.isIntersecting) return
+        observer.disconnect()
+        fetch(src)
+          .then((response) => {
+            if (!response.ok) throw new Error(`HTTP ${response.status}`)
+            return response.text()
+          })
+          .then((source) => {
+            if (cancelled) return
+            const loaded = parseCast(source)
+            setCast(loaded)
+            advanceTo(loaded, loaded.duration)
+          })
+          .catch((err: Error) => !cancelled && setError(err.message))
+      },
+      { rootMargin: '200px' }
+    )
+    observer.observe(el)
+    return () => {
+      cancelled = true
+      observer.disconnect()
+    }
+  }, [src, advanceTo])
+
+  // Playback loop
+  useEffect(() => {
+    if (!playing || !cast) return
+    let last = performance.now()
+    let raf = requestAnimationFrame(function tick(now) {
+      const target = Math.min(cast.duration, timeRef.current + ((now - last) / 1000) * speed)
+      last = now
+      advanceTo(cast, target)
+      if (target >= cast.duration) {
+        setPlaying(false)
+        return
+      }
+      raf = requestAnimationFrame(tick)
+    })
+    return () => cancelAnimationFrame(raf)
+  }, [playing, speed, cast, advanceTo])
+
+  const togglePlay = () => {
+    if (!cast) return
+    if (!playing && timeRef.current >= cast.duration) advanceTo(cast, 0)
+    setPlaying(!playing)
+  }
+
+  const seek = (target: number) => {
+    if (cast) advanceTo(cast, Math.max(0, Math.min(cast.duration, target)))
+  }
+
+  const onKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    if (e.target !== e.currentTarget) return
+    if (e.key === ' ' || e.key === 'k') togglePlay()
+    else if (e.key === 'ArrowLeft') seek(timeRef.current - SEEK_STEP)
+    else if (e.key === 'ArrowRight') seek(timeRef.current + SEEK_STEP)
+    else return
+    e.preventDefault()
+  }
+
+  return (
+    <div
+      ref={ref}
+      role="region"
+      aria-label={t('player.recording', { alt })}
+      tabIndex={0}
+      onKeyDown={onKeyDown}
+      className="focus:outline-none focus-visible:ring-2 focus-visible:ring-accent/60"
+    >
+      <div className="bg-slate-950 p-5 font-mono text-xs leading-relaxed text-slate-300 min-h-[220px] overflow-x-auto" aria-hidden="true">
+        {!cast && (
+          <div className="text-slate-500">{error ? t('player.failed', { error }) : t('player.loading')}</div>
+        )}
+        {frame.map((row, y) => (
+          <div key={y} className="whitespace-pre">
+            {row.map((segment, x) => (
+              <span key={x} style={cellCss(segment.style)}>
+                {segment.text}
+              </span>
+            ))}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-3 px-4 py-2 border-t border-slate-800 bg-slate-900 font-mono text-[10px] text-slate-400">
+        <button
+          onClick={togglePlay}
+          disabled={!cast}
+          className="p-1 hover:text-accent disabled:opacity-40 transition-colors"
+          aria-label={playing ? t('player.pause') : t('player.play')}
+        >
+          {playing ? <Pause className="w-3.5 h-3.5" /> : <Play className="w-3.5 h-3.5" />}
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={cast?.duration ?? 0}
+          step={0.1}
+          value={time}
+          disabled={!cast}
+          onChange={(e) => seek(Number(e.target.value))}
+          className="flex-1 accent-accent"
+          aria-label={t('player.seek')}
+        />
+        <span className="tabular-nums">
+          {formatTime(time)} / {formatTime(cast?.duration ?? 0)}
+        </span>
+        <select
+          value={speed}
+          onChange={(e) => setSpeed(Number(e.target.value))}
+          className="bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-slate-300"
+          aria-label={t('player.speed')}
+        >
+          {SPEEDS.map((option) => (
+            <option key={option} value={option}>
+              {option}×
+            </option>
+          ))}
+        </select>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,31 @@
+import type { CodePanel } from '../content'
+
+/**
+ * A syntax-highlighted excerpt of a source file, with line numbers and the
+ * lines in `highlight` marked. Dark in both themes, like the terminal panels.
+ */
+export default function CodeExcerpt({ panel }: { panel: CodePanel }) {
+  const highlighted = new Set(panel.highlight)
+  return (
+    <div className="bg-slate-950 font-mono text-xs leading-relaxed">
+      <div className="px-4 py-2 border-b border-slate-800 text-[10px] tracking-wider text-slate-400">{panel.file}</div>
+      <pre className="hljs py-4 overflow-x-auto text-slate-300">
+        <code>
+          {panel.lines.map((html, i) => {
+            const number = panel.start + i
+            const marked = highlighted.has(number)
+            return (
+              <span key={number} className={`block pr-5 border-l-2 ${marked ? 'border-accent bg-accent/15' : 'border-transparent'}`}>
+                <span className="inline-block w-12 pr-4 text-right text-slate-500 select-none" aria-hidden="true">
+                  {number}
+                </span>
+                {/* Highlighted at build time, from the entry's own code */}
+                <span dangerouslySetInnerHTML={{ __html: html }} />
+              </span>
+            )
+          })}
+        </code>
+      </pre>
+    </div>
+  )
+}
@@ -0,0 +1,190 @@
+import { useEffect, useMemo, useRef, useState, type KeyboardEvent } from 'react'
+import { createPortal } from 'react-dom'
+import { ExternalLink, Search } from 'lucide-react'
+import { contactLinks, experiences, posts, projects, toolkit } from '../content'
+import { buildSearchIndex, searchIndex, type SearchResult } from '../lib/search'
+import { scrollToAnchor } from '../lib/anchors'
+import { trapFocus } from '../lib/focus'
+import { lockScroll } from '../lib/motion'
+import { useT } from '../hooks/useT'
+import { useContentLang } from '../hooks/useContentLang'
+import { useNavigate, usePathname } from '../router'
+
+const LISTBOX_ID = 'command-palette-results'
+const optionId = (index: number) => `command-palette-option-${index}`
+
+/** `text` with the characters at `indices` marked. */
+function Highlighted({ text, indices }: { text: string; indices: number[] }) {
+  if (indices.length === 0) return <>{text}</>
+  const marked = new Set(indices)
+  return (
+    <>
+      {text.split('').map((char, i) =>
+        marked.has(i) ? (
+          <mark key={i} className="bg-transparent text-accent font-semibold">
+            {char}
+          </mark>
+        ) : (
+          char
+        )
+      )}
+    </>
+  )
+}
+
+/**
+ * Site-wide search, opened with Ctrl/Cmd+K. Anchor results scroll to and
+ * highlight their element on the home page (navigating there first if
+ * needed); link results open in a new tab.
+ */
+export default function CommandPalette({ open, onOpenChange }: { open: boolean; onOpenChange: (open: boolean) => void }) {
+  const t = useT()
+  const lang = useContentLang()
+  const pathname = usePathname()
+  const navigate = useNavigate()
+  const dialogRef = useRef<HTMLDivElement>(null)
+  const inputRef = useRef<HTMLInputElement>(null)
+  const listRef = useRef<HTMLUListElement>(null)
+  const [query, setQuery] = useState('')
+  const [active, setActive] = useState(0)
+
+  const index = useMemo(() => buildSearchIndex({ projects, posts, experiences, toolkit, contactLinks }), [])
+  const results = useMemo(() => searchIndex(index, query), [index, query])
+
+  // Global shortcut
+  useEffect(() => {
+    const onKeyDown = (e: globalThis.KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault()
+        onOpenChange(!open)
+      }
+    }
+    window.addEventListener('keydown', onKeyDown)
+    return () => window.removeEventListener('keydown', onKeyDown)
+  }, [open, onOpenChange])
+
+  // Focus, scroll lock, and focus restore on close
+  useEffect(() => {
+    if (!open) return
+    const previous = document.activeElement as HTMLElement | null
+    const unlockScroll = lockScroll()
+    setQuery('')
+    setActive(0)
+    inputRef.current?.focus()
+    return () => {
+      unlockScroll()
+      // Don't let restoring focus fight the scroll to a chosen result
+      previous?.focus({ preventScroll: true })
+    }
+  }, [open])
+
+  useEffect(() => {
+    listRef.current?.querySelector(`#${optionId(active)}`)?.scrollIntoView({ block: 'nearest' })
+  }, [active])
+
+  if (!open) return null
+
+  const select = (result: SearchResult) => {
+    onOpenChange(false)
+    if (result.target.type === 'url') {
+      window.open(result.target.href, '_blank', 'noopener,noreferrer')
+      return
+    }
+    if (pathname !== '/') navigate('/')
+    scrollToAnchor(result.target.id)
+  }
+
+  const onKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    if (trapFocus(e, dialogRef.current)) return
+    switch (e.key) {
+      case 'ArrowDown':
+        setActive((i) => (results.length === 0 ? 0 : (i + 1) % results.length))
+        break
+      case 'ArrowUp':
+        setActive((i) => (results.length === 0 ? 0 : (i - 1 + results.length) % results.length))
+        break
+      case 'Enter':
+        if (results[active]) select(results[active])
+        break
+      case 'Escape':
+        onOpenChange(false)
+        break
+      default:
+        return
+    }
+    e.preventDefault()
+  }
+
+  return createPortal(
+    <div className="fixed inset-0 z-[9000] flex items-start justify-center px-4 pt-[12vh] bg-slate-900/40 backdrop-blur-sm" onMouseDown={() => onOpenChange(false)}>
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-label={t('search.dialog')}
+        onKeyDown={onKeyDown}
+        onMouseDown={(e) => e.stopPropagation()}
+        className="w-full max-w-xl overflow-hidden bg-surface border border-line rounded-lg shadow-2xl"
+      >
+        <div className="flex items-center gap-3 px-4 border-b border-line-subtle">
+          <Search className="w-4 h-4 text-faint shrink-0" />
+          <input
+            ref={inputRef}
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value)
+              setActive(0)
+            }}
+            role="combobox"
+            aria-expanded={results.length > 0}
+            aria-controls={LISTBOX_ID}
+            aria-activedescendant={results.length > 0 ? optionId(active) : undefined}
+            aria-autocomplete="list"
+            aria-label={t('search.input')}
+            placeholder={t('search.placeholder')}
+            autoComplete="off"
+            spellCheck={false}
+            className="flex-1 py-4 bg-transparent text-sm text-strong placeholder:text-faint outline-none"
+          />
+          <kbd className="font-mono text-[10px] text-faint border border-line rounded px-1.5 py-0.5">ESC</kbd>
+        </div>
+
+        <ul ref={listRef} id={LISTBOX_ID} data-lenis-prevent role="listbox" aria-label={t('search.results')} className="max-h-[50vh] overflow-y-auto py-2">
+          {results.map((result, i) => (
+            <li
+              key={result.key}
+              id={optionId(i)}
+              role="option"
+              aria-selected={i === active}
+              onMouseMove={() => setActive(i)}
+              onClick={() => select(result)}
+              className={`flex items-center gap-3 mx-2 px-3 py-2 rounded-md cursor-pointer ${i === active ? 'bg-accent/10' : ''}`}
+            >
+              <span className="w-20 shrink-0 font-mono text-[10px] tracking-wider uppercase text-faint">{t(`search.kind.${result.kind}`)}</span>
+              {/* Sections are named by the catalog, everything else comes from content/ */}
+              <span lang={result.kind === 'section' ? undefined : lang} className="flex-1 min-w-0">
+                <span className="block text-sm text-strong truncate">
+                  <Highlighted text={result.title} indices={result.indices} />
+                </span>
+                {result.subtitle && <span className="block text-xs text-faint truncate">{result.subtitle}</span>}
+              </span>
+              {result.target.type === 'url' && <ExternalLink className="w-3.5 h-3.5 text-faint shrink-0" aria-label={t('search.opensInNewTab')} />}
+            </li>
+          ))}
+        </ul>
+
+        {results.length === 0 && <p className="px-4 py-6 text-center font-mono text-xs text-faint">{t('search.noMatches', { query })}</p>}
+
+        <div className="flex items-center gap-4 px-4 py-2 border-t border-line-subtle font-mono text-[10px] text-faint">
+          <span>{t('search.hintNavigate')}</span>
+          <span>{t('search.hintOpen')}</span>
+          <span>{t('search.hintClose')}</span>
+          <span role="status" className="ml-auto">
+            {t(results.length === 1 ? 'search.count.one' : 'search.count.other', { count: results.length })}
+          </span>
+        </div>
+      </div>
+    </div>,
+    document.body
+  )
+}
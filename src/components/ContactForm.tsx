@@ -0,0 +1,189 @@
+import { useRef, useState, type ChangeEvent, type FormEvent } from 'react'
+import { AlertTriangle, Check, RotateCcw, Send } from 'lucide-react'
+import {
+  ContactSendError,
+  defaultTransport,
+  screenMessage,
+  validateContact,
+  type ContactErrors,
+  type ContactField,
+  type ContactMessage,
+  type ContactProblem,
+  type ContactTransport,
+} from '../lib/contact'
+import { track } from '../lib/analytics'
+import { useDraft } from '../hooks/useDraft'
+import { useT } from '../hooks/useT'
+
+const DRAFT_KEY = 'contact-draft'
+const EMPTY: ContactMessage = { name: '', email: '', message: '' }
+const FIELDS: ContactField[] = ['name', 'email', 'message']
+
+type Status = { state: 'idle' } | { state: 'sending' } | { state: 'sent' } | { state: 'failed'; error: ContactProblem }
+
+const inputClass = (invalid: boolean) =>
+  `w-full px-4 py-3 bg-surface-muted border text-strong text-sm focus:outline-none transition-colors rounded-md ${
+    invalid ? 'border-danger/70 focus:border-danger' : 'border-line focus:border-accent'
+  }`
+
+/**
+ * The contact form. Messages go through `transport` (Formspree unless the
+ * build says otherwise); the text is kept as a localStorage draft until a
+ * send succeeds. Spam gets a hidden honeypot field and a minimum fill time.
+ */
+export default function ContactForm({ transport = defaultTransport() }: { transport?: ContactTransport }) {
+  const t = useT()
+  const formRef = useRef<HTMLFormElement>(null)
+  const fieldRefs = useRef<Partial<Record<ContactField, HTMLInputElement | HTMLTextAreaElement | null>>>({})
+  const [form, setForm, clearDraft] = useDraft(DRAFT_KEY, EMPTY)
+  const [errors, setErrors] = useState<ContactErrors>({})
+  const [touched, setTouched] = useState<Partial<Record<ContactField, boolean>>>({})
+  const [status, setStatus] = useState<Status>({ state: 'idle' })
+  const [honeypot, setHoneypot] = useState('')
+  // Set by the first edit, so a draft restored from an earlier visit can be sent straight away
+  const startedAt = useRef<number | null>(null)
+  const opened = useRef(false)
+
+  const succeed = () => {
+    clearDraft()
+    setTouched({})
+    setErrors({})
+    setStatus({ state: 'sent' })
+    setTimeout(() => setStatus({ state: 'idle' }), 5000)
+  }
+
+  // Counted once per page view, to compare with the submits
+  const handleFocus = () => {
+    if (opened.current) return
+    opened.current = true
+    track('contact_form_open')
+  }
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault()
+    if (status.state === 'sending') return
+
+    const found = validateContact(form)
+    setErrors(found)
+    setTouched({ name: true, email: true, message: true })
+    const firstInvalid = FIELDS.find((field) => found[field])
+    if (firstInvalid) {
+      fieldRefs.current[firstInvalid]?.focus()
+      return
+    }
+
+    const verdict = screenMessage({ honeypot, startedAt: startedAt.current })
+    // Bots fill every field; let them think it worked
+    if (verdict === 'bot') return succeed()
+    if (verdict === 'too-fast') {
+      setStatus({ state: 'failed', error: { key: 'form.tooFast' } })
+      return
+    }
+
+    setStatus({ state: 'sending' })
+    try {
+      await transport.send({ name: form.name.trim(), email: form.email.trim(), message: form.message.trim() })
+      track('contact_form_submit', { outcome: 'sent' })
+      succeed()
+    } catch (err) {
+      track('contact_form_submit', { outcome: 'failed' })
+      const error: ContactProblem = err instanceof ContactSendError ? err.problem : { key: 'form.unknownError' }
+      setStatus({ state: 'failed', error })
+    }
+  }
+
+  /** Props shared by the three fields: value, validation state and error wiring. */
+  const fieldProps = (field: ContactField, extraClass = '') => {
+    const error = touched[field] ? errors[field] : undefined
+    return {
+      id: `contact-${field}`,
+      name: field,
+      value: form[field],
+      ref: (el: HTMLInputElement | HTMLTextAreaElement | null) => {
+        fieldRefs.current[field] = el
+      },
+      onChange: (e: ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+        startedAt.current ??= Date.now()
+        const next = { ...form, [field]: e.target.value }
+        setForm(next)
+        if (touched[field]) setErrors(validateContact(next))
+      },
+      onBlur: () => {
+        setTouched({ ...touched, [field]: true })
+        setErrors(validateContact(form))
+      },
+      'aria-required': true,
+      'aria-invalid': error ? true : undefined,
+      'aria-describedby': error ? `contact-${field}-error` : undefined,
+      className: `${inputClass(Boolean(error))} ${extraClass}`.trim(),
+    }
+  }
+
+  const fieldError = (field: ContactField) =>
+    touched[field] && errors[field] ? (
+      <p id={`contact-${field}-error`} className="mt-1.5 font-mono text-xs text-danger">
+        {t(errors[field].key, errors[field].values)}
+      </p>
+    ) : null
+
+  const sending = status.state === 'sending'
+  const sent = status.state === 'sent'
+
+  return (
+    <form ref={formRef} onSubmit={handleSubmit} onFocus={handleFocus} noValidate className="relative space-y-6">
+      <div>
+        <label htmlFor="contact-name" className="block font-mono text-xs text-muted mb-2">{t('form.name')}</label>
+        <input type="text" autoComplete="name" placeholder={t('form.namePlaceholder')} {...fieldProps('name')} />
+        {fieldError('name')}
+      </div>
+      <div>
+        <label htmlFor="contact-email" className="block font-mono text-xs text-muted mb-2">{t('form.email')}</label>
+        <input type="email" autoComplete="email" placeholder={t('form.emailPlaceholder')} {...fieldProps('email')} />
+        {fieldError('email')}
+      </div>
+      <div>
+        <label htmlFor="contact-message" className="block font-mono text-xs text-muted mb-2">{t('form.message')}</label>
+        <textarea rows={5} placeholder={t('form.messagePlaceholder')} {...fieldProps('message', 'resize-none')} />
+        {fieldError('message')}
+      </div>
+
+      {/* Honeypot: hidden from people and assistive tech, filled in by naive bots */}
+      <div className="absolute -left-[9999px] w-px h-px overflow-hidden" aria-hidden="true">
+        <label htmlFor="contact-website">{t('form.honeypot')}</label>
+        <input id="contact-website" type="text" name="website" tabIndex={-1} autoComplete="off" value={honeypot} onChange={(e) => setHoneypot(e.target.value)} />
+      </div>
+
+      {status.state === 'failed' && (
+        <div role="alert" className="flex items-start gap-3 p-4 border border-danger/30 bg-danger/10 rounded-md">
+          <AlertTriangle className="w-4 h-4 mt-0.5 text-danger shrink-0" />
+          <div className="flex-1">
+            <p className="font-mono text-xs font-semibold text-danger mb-1">{t('form.notSent')}</p>
+            <p className="text-sm text-danger">{t(status.error.key, status.error.values)}</p>
+            <p className="text-xs text-muted mt-1">{t('form.draftSaved')}</p>
+          </div>
+          <button
+            type="button"
+            onClick={() => formRef.current?.requestSubmit()}
+            className="flex items-center gap-1.5 px-3 py-1.5 font-mono text-xs text-danger border border-danger/40 hover:bg-danger/15 rounded transition-colors"
+          >
+            <RotateCcw className="w-3.5 h-3.5" />
+            {t('form.retry')}
+          </button>
+        </div>
+      )}
+
+      <button type="submit" disabled={sending || sent} className={`w-full flex items-center justify-center gap-2 px-6 py-4 font-mono text-sm tracking-wider transition-all duration-300 rounded-md ${sent ? 'bg-success/15 text-success border border-success/40' : 'bg-accent text-accent-contrast hover:bg-accent/90'}`}>
+        {sending ? (
+          <><div className="w-4 h-4 border-2 border-accent-contrast/30 border-t-accent-contrast rounded-full animate-spin" />{t('form.sending')}</>
+        ) : sent ? (
+          <><Check className="w-4 h-4" />{t('form.sent')}</>
+        ) : (
+          <><Send className="w-4 h-4" />{t('form.submit')}</>
+        )}
+      </button>
+      <p role="status" className="sr-only">
+        {sending ? t('form.statusSending') : sent ? t('form.statusSent') : ''}
+      </p>
+    </form>
+  )
+}
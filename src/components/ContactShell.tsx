@@ -0,0 +1,255 @@
+import { useEffect, useRef, useState, type KeyboardEvent } from 'react'
+import { contactLinks, experiences, projects, terminalLines, toolkit, type TerminalLine, type TerminalLineKind } from '../content'
+import { completeInput, runCommand, type ShellActions, type ShellData } from '../lib/shell'
+import {
+  ContactSendError,
+  defaultTransport,
+  screenMessage,
+  validateContact,
+  type ContactField,
+  type ContactMessage,
+  type ContactProblem,
+  type ContactTransport,
+} from '../lib/contact'
+import { getTheme, setTheme } from '../lib/theme'
+import { useNavigate } from '../router'
+import { useT } from '../hooks/useT'
+import { useContentLang } from '../hooks/useContentLang'
+
+const data: ShellData = { projects, experiences, toolkit, contactLinks, terminalLines }
+
+/** The intro's `> _` line marks where the live prompt takes over. */
+const CURSOR_LINE = '> _'
+
+const MAIL_FIELDS: ContactField[] = ['name', 'email', 'message']
+
+const kindClasses: Record<TerminalLineKind, string> = {
+  command: 'text-strong',
+  output: 'text-muted',
+  success: 'text-success',
+  warning: 'text-warning',
+  'key-value': 'text-strong',
+  comment: 'text-faint italic',
+}
+
+/**
+ * In-progress `mail` command: which field is being asked for, or the final
+ * confirmation, and when it started, for the same fill-time check as the form.
+ */
+type MailSession = { step: number; draft: ContactMessage; confirming: boolean; startedAt: number }
+
+const getIntroClass = (text: string) => {
+  if (text.includes('name:') || text.includes('location:') || text.includes('role:') || text.includes('cert:')) return 'text-success'
+  if (text.includes('status:')) return 'text-accent'
+  return 'text-muted'
+}
+
+function LineText({ line }: { line: TerminalLine }) {
+  const split = line.kind === 'key-value' ? line.text.indexOf(':') : -1
+  if (split === -1) return <>{line.text}</>
+  return (
+    <>
+      <span className="text-faint">{line.text.slice(0, split + 1)}</span>
+      {line.text.slice(split + 1)}
+    </>
+  )
+}
+
+/**
+ * The `contact.sh` window: plays the intro lines when it scrolls into view,
+ * then accepts commands (see src/lib/shell.ts) with tab completion and
+ * history. `mail` walks through the contact form's fields and sends through
+ * the same spam checks and transport.
+ */
+export default function ContactShell({ transport = defaultTransport() }: { transport?: ContactTransport }) {
+  const t = useT()
+  const lang = useContentLang()
+  const navigate = useNavigate()
+  const ref = useRef<HTMLDivElement>(null)
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [visibleLines, setVisibleLines] = useState(0)
+  const [introCleared, setIntroCleared] = useState(false)
+  const [lines, setLines] = useState<TerminalLine[]>(() => [{ kind: 'comment', text: t('shell.welcome') }])
+  const [input, setInput] = useState('')
+  const [history, setHistory] = useState<string[]>([])
+  /** Position while walking back through `history`; null when editing a new line */
+  const [historyIndex, setHistoryIndex] = useState<number | null>(null)
+  const [mail, setMail] = useState<MailSession | null>(null)
+  const [sending, setSending] = useState(false)
+  const hasAnimated = useRef(false)
+
+  const ready = visibleLines === terminalLines.length
+
+  useEffect(() => {
+    const observer = new IntersectionObserver(
+      (entries) => {
+        entries.forEach((entry) => {
+          if (entry.isIntersecting && !hasAnimated.current) {
+            hasAnimated.current = true
+            terminalLines.forEach((line, i) => {
+              setTimeout(() => {
+                setVisibleLines(i + 1)
+              }, line.delay)
+            })
+          }
+        })
+      },
+      { threshold: 0.3 }
+    )
+    if (ref.current) observer.observe(ref.current)
+    return () => observer.disconnect()
+  }, [])
+
+  // Keep the newest output in view
+  useEffect(() => {
+    const el = ref.current
+    if (el) el.scrollTop = el.scrollHeight
+  }, [lines, visibleLines])
+
+  const print = (...added: TerminalLine[]) => setLines((prev) => [...prev, ...added])
+
+  const prompt = !mail ? '>' : mail.confirming ? t('shell.mail.confirm') : t(`shell.mail.${MAIL_FIELDS[mail.step]}`)
+
+  const send = (session: MailSession) => {
+    // The shell has no honeypot to fill, but gets the form's timing check
+    if (screenMessage({ honeypot: '', startedAt: session.startedAt }) === 'too-fast') {
+      print({ kind: 'warning', text: t('form.tooFast') }, { kind: 'comment', text: t('shell.mail.retry') })
+      return
+    }
+    setSending(true)
+    transport
+      .send(session.draft)
+      .then(() => {
+        setMail(null)
+        print({ kind: 'success', text: t('shell.mail.sent') })
+      })
+      .catch((err) => {
+        const problem: ContactProblem = err instanceof ContactSendError ? err.problem : { key: 'form.unknownError' }
+        print({ kind: 'warning', text: t('shell.mail.notSent', { reason: t(problem.key, problem.values) }) }, { kind: 'comment', text: t('shell.mail.retry') })
+      })
+      .finally(() => setSending(false))
+  }
+
+  const answerMail = (session: MailSession, value: string) => {
+    print({ kind: 'command', text: `${prompt} ${value}` })
+
+    if (session.confirming) {
+      const answer = value.trim().toLowerCase()
+      if (answer === 'y' || answer === 'yes') send(session)
+      else if (answer === 'n' || answer === 'no') {
+        setMail(null)
+        print({ kind: 'comment', text: t('shell.mail.discarded') })
+      } else {
+        print({ kind: 'warning', text: t('shell.mail.yesOrNo') })
+      }
+      return
+    }
+
+    const field = MAIL_FIELDS[session.step]
+    const draft = { ...session.draft, [field]: value.trim() }
+    const error = validateContact(draft)[field]
+    if (error) {
+      print({ kind: 'warning', text: t(error.key, error.values) })
+      return
+    }
+    const last = session.step === MAIL_FIELDS.length - 1
+    setMail({ ...session, step: last ? session.step : session.step + 1, draft, confirming: last })
+  }
+
+  const execute = (value: string) => {
+    if (value.trim()) setHistory((prev) => [...prev, value])
+    setHistoryIndex(null)
+
+    let cleared = false
+    const actions: ShellActions = {
+      clear: () => (cleared = true),
+      openUrl: (url) => window.open(url, '_blank', 'noopener,noreferrer'),
+      navigate,
+      startMail: () => setMail({ step: 0, draft: { name: '', email: '', message: '' }, confirming: false, startedAt: Date.now() }),
+      theme: getTheme,
+      setTheme,
+    }
+    const output = runCommand(value, data, actions, t)
+    if (cleared) {
+      setIntroCleared(true)
+      setLines([])
+    } else {
+      print({ kind: 'command', text: `> ${value}` }, ...output)
+    }
+  }
+
+  const recall = (index: number | null) => {
+    setHistoryIndex(index)
+    setInput(index === null ? '' : history[index])
+  }
+
+  const onKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      if (sending) return
+      setInput('')
+      if (mail) answerMail(mail, input)
+      else execute(input)
+    } else if (e.key === 'c' && e.ctrlKey && e.currentTarget.selectionStart === e.currentTarget.selectionEnd) {
+      print({ kind: 'command', text: `${prompt} ${input}^C` })
+      if (mail) print({ kind: 'comment', text: t('shell.mail.cancelled') })
+      setMail(null)
+      setInput('')
+    } else if (e.key === 'Tab' && !mail) {
+      // Only trap Tab when there is something to complete, so keyboard users can still leave
+      if (!input.trim()) return
+      const { input: completed, options } = completeInput(input, data)
+      setInput(completed)
+      if (options.length > 0) print({ kind: 'command', text: `> ${input}` }, { kind: 'output', text: options.join('  ') })
+    } else if (e.key === 'ArrowUp' && !mail && history.length > 0) {
+      recall(historyIndex === null ? history.length - 1 : Math.max(0, historyIndex - 1))
+    } else if (e.key === 'ArrowDown' && !mail && historyIndex !== null) {
+      recall(historyIndex + 1 < history.length ? historyIndex + 1 : null)
+    } else {
+      return
+    }
+    e.preventDefault()
+  }
+
+  const intro = introCleared ? [] : terminalLines.slice(0, visibleLines).filter((line) => line.text !== CURSOR_LINE)
+
+  return (
+    <div
+      ref={ref}
+      data-lenis-prevent
+      onClick={() => window.getSelection()?.isCollapsed !== false && inputRef.current?.focus()}
+      className="p-6 font-mono text-sm min-h-[220px] max-h-[360px] overflow-y-auto cursor-text"
+    >
+      <div role="log" aria-live="polite" aria-label={t('shell.output')}>
+        {intro.map((line, i) => (
+          <div key={i} lang={lang} className={`mb-1 ${getIntroClass(line.text)}`}>
+            {line.text}
+          </div>
+        ))}
+        {ready &&
+          lines.map((line, i) => (
+            <div key={i} className={`mb-1 whitespace-pre-wrap break-words ${kindClasses[line.kind]}`}>
+              <LineText line={line} />
+            </div>
+          ))}
+      </div>
+
+      {ready && (
+        <div className="flex items-center gap-2 text-strong">
+          <span className={mail ? 'text-accent' : 'text-faint'}>{prompt}</span>
+          <input
+            ref={inputRef}
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            onKeyDown={onKeyDown}
+            readOnly={sending}
+            aria-label={mail ? t('shell.mail.label', { field: prompt }) : t('shell.input')}
+            autoComplete="off"
+            autoCapitalize="none"
+            spellCheck={false}
+            className="flex-1 min-w-0 bg-transparent outline-none caret-accent"
+          />
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,6 +1,24 @@
 import { useEffect, useRef } from 'react'
+import { cursor } from '../lib/preferences'
+import { usePreference } from '../hooks/usePreference'
+import { useReducedMotion } from '../hooks/useReducedMotion'
 
+/** How far the ring closes on the pointer each frame */
+const EASING = 0.12
+/** Below this distance, in pixels, the ring snaps to the pointer and the animation stops */
+const SETTLED = 0.5
+
+const HOVERABLE = 'a, button, .hoverable'
+
+/**
+ * A ring that trails the mouse pointer and grows over links and buttons.
+ * Only animates while the ring is catching up, follows without lag under
+ * reduced motion, hides while the keyboard is in use, and can be turned off
+ * from the navigation.
+ */
 export default function CustomCursor() {
+  const [enabled] = usePreference(cursor, 'off')
+  const reducedMotion = useReducedMotion()
   const dotRef = useRef<HTMLDivElement>(null)
   const ringRef = useRef<HTMLDivElement>(null)
 
@@ -13,47 +31,72 @@ export default function CustomCursor() {
     let mouseY = 0
     let ringX = 0
     let ringY = 0
-    let rafId: number
+    let rafId: number | null = null
+
+    const place = () => {
+      ring.style.transform = `translate(${ringX}px, ${ringY}px)`
+    }
+
+    const animate = () => {
+      ringX += (mouseX - ringX) * EASING
+      ringY += (mouseY - ringY) * EASING
+      if (Math.abs(mouseX - ringX) < SETTLED && Math.abs(mouseY - ringY) < SETTLED) {
+        ringX = mouseX
+        ringY = mouseY
+        rafId = null
+      } else {
+        rafId = requestAnimationFrame(animate)
+      }
+      place()
+    }
+
+    const show = (visible: boolean) => {
+      ring.style.visibility = visible ? 'visible' : 'hidden'
+    }
 
     const onMouseMove = (e: MouseEvent) => {
       mouseX = e.clientX
       mouseY = e.clientY
       // Dot follows instantly
       dot.style.transform = `translate(${mouseX}px, ${mouseY}px)`
+      show(true)
+      if (reducedMotion) {
+        ringX = mouseX
+        ringY = mouseY
+        place()
+      } else if (rafId === null) {
+        rafId = requestAnimationFrame(animate)
+      }
     }
 
-    const animate = () => {
-      // Ring follows with smooth lag
-      ringX += (mouseX - ringX) * 0.12
-      ringY += (mouseY - ringY) * 0.12
-      ring.style.transform = `translate(${ringX}px, ${ringY}px)`
-      rafId = requestAnimationFrame(animate)
+    // Grow on hoverable elements
+    const onMouseOver = (e: MouseEvent) => {
+      ring.classList.toggle('cursor-grow', e.target instanceof Element && e.target.closest(HOVERABLE) !== null)
     }
 
-    // Grow on hoverable elements
-    const onMouseEnter = () => ring.classList.add('cursor-grow')
-    const onMouseLeave = () => ring.classList.remove('cursor-grow')
+    // Keyboard users get the focus ring instead; the next mouse move brings the cursor back
+    const onKeyDown = () => show(false)
+    const onMouseLeave = () => show(false)
 
+    show(false)
     document.addEventListener('mousemove', onMouseMove)
-    rafId = requestAnimationFrame(animate)
-
-    const addHoverListeners = () => {
-      document.querySelectorAll('a, button, .hoverable').forEach((el) => {
-        el.addEventListener('mouseenter', onMouseEnter)
-        el.addEventListener('mouseleave', onMouseLeave)
-      })
-    }
-
-    addHoverListeners()
+    document.addEventListener('mouseover', onMouseOver)
+    document.addEventListener('keydown', onKeyDown)
+    document.documentElement.addEventListener('mouseleave', onMouseLeave)
 
     return () => {
       document.removeEventListener('mousemove', onMouseMove)
-      cancelAnimationFrame(rafId)
+      document.removeEventListener('mouseover', onMouseOver)
+      document.removeEventListener('keydown', onKeyDown)
+      document.documentElement.removeEventListener('mouseleave', onMouseLeave)
+      if (rafId !== null) cancelAnimationFrame(rafId)
     }
-  }, [])
+  }, [enabled, reducedMotion])
+
+  if (enabled === 'off') return null
 
   return (
-    <>
+    <div aria-hidden="true">
       {/* Small instant dot */}
       <div
         ref={dotRef}
@@ -65,7 +108,7 @@ export default function CustomCursor() {
           width: 8,
           height: 8,
           borderRadius: '50%',
-          backgroundColor: "#c17b8e",
+          backgroundColor: 'rgb(var(--color-accent))',
           display: "none",
           pointerEvents: 'none',
           zIndex: 99999,
@@ -84,7 +127,7 @@ export default function CustomCursor() {
           width: 32,
           height: 32,
           borderRadius: '50%',
-          border: '1.5px solid #c17b8e',
+          border: '1.5px solid rgb(var(--color-accent))',
           opacity: 0.6,
           pointerEvents: 'none',
           zIndex: 99998,
@@ -104,6 +147,6 @@ export default function CustomCursor() {
           opacity: 0.3 !important;
         }
       `}</style>
-    </>
+    </div>
   )
 }
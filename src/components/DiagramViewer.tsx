@@ -0,0 +1,147 @@
+import { useState } from 'react'
+import { Maximize2, X } from 'lucide-react'
+import type { DiagramHotspot, DiagramPanel } from '../content'
+import Lightbox from './Lightbox'
+import ResponsiveImage from './ResponsiveImage'
+import { useT } from '../hooks/useT'
+import { useContentLang } from '../hooks/useContentLang'
+
+type SelectionProps = {
+  panel: DiagramPanel
+  selected: DiagramHotspot | undefined
+  onSelect: (id: string | null) => void
+}
+
+/** The diagram with its hotspots positioned over it as percentage-sized buttons. */
+function DiagramCanvas({ panel, selected, onSelect, sizes }: SelectionProps & { sizes?: string }) {
+  return (
+    <div className="relative select-none">
+      {panel.svg ? (
+        <div role="img" aria-label={panel.alt} className="[&>svg]:w-full [&>svg]:h-auto" dangerouslySetInnerHTML={{ __html: panel.svg }} />
+      ) : (
+        <ResponsiveImage src={panel.src} alt={panel.alt} sizes={sizes} className="w-full h-auto" zoomable={false} draggable={false} />
+      )}
+
+      {panel.hotspots.map((spot, i) => {
+        const active = spot.id === selected?.id
+        return (
+          <button
+            key={spot.id}
+            type="button"
+            onClick={() => onSelect(active ? null : spot.id)}
+            aria-pressed={active}
+            aria-label={spot.label}
+            title={spot.label}
+            style={{ left: `${spot.x}%`, top: `${spot.y}%`, width: `${spot.width}%`, height: `${spot.height}%` }}
+            className={`absolute rounded border-2 transition-colors focus:outline-none focus-visible:ring-2 focus-visible:ring-accent/60 ${
+              active ? 'border-accent bg-accent/10' : 'border-transparent hover:border-accent/70 hover:bg-accent/5'
+            }`}
+          >
+            <span className="absolute -top-2 -left-2 flex items-center justify-center w-5 h-5 rounded-full bg-accent text-accent-contrast font-mono text-[10px] shadow">
+              {i + 1}
+            </span>
+          </button>
+        )
+      })}
+    </div>
+  )
+}
+
+/** What the selected component does, or the list of components when none is selected. */
+function HotspotDetails({ panel, selected, onSelect }: SelectionProps) {
+  const t = useT()
+  const lang = useContentLang()
+  if (!selected) {
+    return (
+      <div className="px-4 py-3 bg-surface">
+        <div className="font-mono text-[10px] text-faint tracking-wider mb-2">{t('diagram.select')}</div>
+        <div lang={lang} className="flex flex-wrap gap-2">
+          {panel.hotspots.map((spot, i) => (
+            <button
+              key={spot.id}
+              type="button"
+              onClick={() => onSelect(spot.id)}
+              className="px-2 py-1 text-xs font-mono text-body border border-line hover:border-accent hover:text-accent rounded transition-colors"
+            >
+              <span className="text-accent mr-1.5">{i + 1}</span>
+              {spot.label}
+            </button>
+          ))}
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="px-4 py-3 bg-surface">
+      <div className="flex items-start justify-between gap-4 mb-1">
+        <div lang={lang} className="font-mono text-sm font-semibold text-heading">{selected.label}</div>
+        <button
+          type="button"
+          onClick={() => onSelect(null)}
+          className="p-1 text-faint hover:text-accent transition-colors"
+          aria-label={t('diagram.clear')}
+        >
+          <X className="w-3.5 h-3.5" />
+        </button>
+      </div>
+      <p lang={lang} className="writeup text-sm text-body mb-2" dangerouslySetInnerHTML={{ __html: selected.description }} />
+      {selected.tags.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {selected.tags.map((tag) => (
+            <span key={tag} className="px-2 py-1 text-xs font-mono bg-surface-sunken text-body border border-line rounded">
+              {tag}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+/**
+ * An architecture diagram with clickable component hotspots. Selecting a
+ * hotspot explains its role in the project; the expand button opens the
+ * diagram full screen with pan and zoom.
+ */
+export default function DiagramViewer({ panel, sizes }: { panel: DiagramPanel; sizes?: string }) {
+  const t = useT()
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [expanded, setExpanded] = useState(false)
+  const selection: SelectionProps = {
+    panel,
+    selected: panel.hotspots.find((spot) => spot.id === selectedId),
+    onSelect: setSelectedId,
+  }
+
+  return (
+    <div>
+      <div className="relative">
+        <DiagramCanvas {...selection} sizes={sizes} />
+        <button
+          type="button"
+          onClick={() => setExpanded(true)}
+          className="absolute top-2 right-2 p-1.5 bg-surface/90 border border-line rounded text-muted hover:text-accent hover:border-accent transition-colors"
+          aria-label={t('diagram.expand')}
+        >
+          <Maximize2 className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      <div className="border-t border-line-subtle" aria-live="polite">
+        <HotspotDetails {...selection} />
+      </div>
+
+      <Lightbox
+        open={expanded}
+        onClose={() => setExpanded(false)}
+        label={panel.caption}
+        footer={<HotspotDetails {...selection} />}
+      >
+        <div className="bg-surface rounded">
+          <DiagramCanvas {...selection} />
+        </div>
+      </Lightbox>
+    </div>
+  )
+}
@@ -0,0 +1,19 @@
+import { BookOpen, Cloud, Code2, Github, Globe, Linkedin, Users, Zap, type LucideIcon, type LucideProps } from 'lucide-react'
+import type { IconName } from '../content'
+
+const icons: Record<IconName, LucideIcon> = {
+  zap: Zap,
+  code: Code2,
+  users: Users,
+  cloud: Cloud,
+  book: BookOpen,
+  linkedin: Linkedin,
+  github: Github,
+  globe: Globe,
+}
+
+/** Renders a lucide icon referenced by name from `content/` data. */
+export default function Icon({ name, ...props }: { name: IconName } & LucideProps) {
+  const Component = icons[name]
+  return <Component {...props} />
+}
@@ -0,0 +1,75 @@
+import { useState, type KeyboardEvent } from 'react'
+import { ChevronLeft, ChevronRight } from 'lucide-react'
+import type { CarouselPanel } from '../content'
+import ResponsiveImage from './ResponsiveImage'
+import { useT } from '../hooks/useT'
+import { useContentLang } from '../hooks/useContentLang'
+
+/**
+ * Several images shown one at a time, each with its caption. The buttons,
+ * the dots and the arrow keys (while focus is inside) change slides, which
+ * wrap around; screen readers hear which slide is showing. Clicking an image
+ * opens it full screen.
+ */
+export default function ImageCarousel({ panel, sizes }: { panel: CarouselPanel; sizes?: string }) {
+  const t = useT()
+  const lang = useContentLang()
+  const [index, setIndex] = useState(0)
+  const count = panel.slides.length
+  const go = (next: number) => setIndex((next + count) % count)
+
+  const onKeyDown = (e: KeyboardEvent<HTMLElement>) => {
+    // The enlarged image's lightbox pans with the arrow keys, and its events bubble here through the portal
+    if (e.defaultPrevented) return
+    if (e.key === 'ArrowLeft') go(index - 1)
+    else if (e.key === 'ArrowRight') go(index + 1)
+    else return
+    e.preventDefault()
+  }
+
+  const control = 'p-1.5 text-muted hover:text-accent border border-line hover:border-accent rounded transition-colors'
+
+  return (
+    <section aria-roledescription={t('carousel.role')} aria-label={panel.caption} onKeyDown={onKeyDown}>
+      <div aria-live="polite">
+        {panel.slides.map((slide, i) => (
+          <div
+            key={i}
+            role="group"
+            aria-roledescription={t('carousel.slide')}
+            aria-label={t('carousel.position', { index: i + 1, count })}
+            hidden={i !== index}
+          >
+            <figure>
+              <ResponsiveImage src={slide.src} alt={slide.alt} sizes={sizes} className="w-full h-auto" />
+              {slide.caption && <figcaption lang={lang} className="px-4 pt-3 text-xs text-muted">{slide.caption}</figcaption>}
+            </figure>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between gap-4 px-4 py-3">
+        <button type="button" onClick={() => go(index - 1)} className={control} aria-label={t('carousel.previous')}>
+          <ChevronLeft className="w-4 h-4" />
+        </button>
+        <div className="flex items-center gap-1">
+          {panel.slides.map((_, i) => (
+            <button
+              key={i}
+              type="button"
+              onClick={() => go(i)}
+              aria-label={t('carousel.show', { index: i + 1 })}
+              aria-current={i === index}
+              className="group/dot p-1.5"
+            >
+              <span className={`block w-2 h-2 rounded-full transition-colors ${i === index ? 'bg-accent' : 'bg-line group-hover/dot:bg-accent/60'}`} />
+            </button>
+          ))}
+        </div>
+        <button type="button" onClick={() => go(index + 1)} className={control} aria-label={t('carousel.next')}>
+          <ChevronRight className="w-4 h-4" />
+        </button>
+      </div>
+    </section>
+  )
+}
@@ -0,0 +1,207 @@
+import { useEffect, useRef, useState, type KeyboardEvent, type PointerEvent, type ReactNode } from 'react'
+import { createPortal } from 'react-dom'
+import { Minus, Plus, RotateCcw, X } from 'lucide-react'
+import { trapFocus } from '../lib/focus'
+import { lockScroll } from '../lib/motion'
+import { useT } from '../hooks/useT'
+
+const MIN_SCALE = 1
+const MAX_SCALE = 5
+const ZOOM_STEP = 1.25
+/** Pixels panned per arrow-key press */
+const PAN_STEP = 60
+/** Pointer travel (px) before a press counts as a drag rather than a click */
+const DRAG_THRESHOLD = 4
+
+type View = { scale: number; x: number; y: number }
+
+const INITIAL_VIEW: View = { scale: 1, x: 0, y: 0 }
+
+const clampScale = (scale: number) => Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale))
+
+type LightboxProps = {
+  open: boolean
+  onClose: () => void
+  /** Accessible name of the dialog */
+  label: string
+  children: ReactNode
+  /** Rendered under the zoomable area, outside the transform */
+  footer?: ReactNode
+  /** Off for children with drags and keys of their own, like a recording's player; defaults to on */
+  zoomable?: boolean
+}
+
+/**
+ * Full-screen modal viewer with pan and zoom. Keyboard: Escape closes,
+ * +/- zoom, 0 resets, arrow keys pan; Tab stays inside the dialog.
+ * Drag to pan, wheel to zoom. Clicks that end a drag are swallowed so
+ * interactive children (hotspots) don't fire by accident. With `zoomable`
+ * off it is a plain dialog: Escape and the close button, nothing else.
+ */
+export default function Lightbox({ open, onClose, label, children, footer, zoomable = true }: LightboxProps) {
+  const t = useT()
+  const dialogRef = useRef<HTMLDivElement>(null)
+  const stageRef = useRef<HTMLDivElement>(null)
+  const closeRef = useRef<HTMLButtonElement>(null)
+  const [view, setView] = useState<View>(INITIAL_VIEW)
+  const drag = useRef<{ startX: number; startY: number; originX: number; originY: number; moved: boolean } | null>(null)
+
+  const zoom = (factor: number) => setView((v) => ({ ...v, scale: clampScale(v.scale * factor) }))
+  const pan = (dx: number, dy: number) => setView((v) => ({ ...v, x: v.x + dx, y: v.y + dy }))
+  const reset = () => setView(INITIAL_VIEW)
+
+  // Focus, scroll lock, and focus restore on close
+  useEffect(() => {
+    if (!open) return
+    const previous = document.activeElement as HTMLElement | null
+    const unlockScroll = lockScroll()
+    setView(INITIAL_VIEW)
+    closeRef.current?.focus()
+    return () => {
+      unlockScroll()
+      previous?.focus()
+    }
+  }, [open])
+
+  // Wheel zoom needs a non-passive listener to stop the page from scrolling
+  useEffect(() => {
+    const stage = stageRef.current
+    if (!open || !zoomable || !stage) return
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault()
+      zoom(e.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP)
+    }
+    stage.addEventListener('wheel', onWheel, { passive: false })
+    return () => stage.removeEventListener('wheel', onWheel)
+  }, [open, zoomable])
+
+  if (!open) return null
+
+  const onKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    if (trapFocus(e, dialogRef.current)) return
+    if (!zoomable && e.key !== 'Escape') return
+    switch (e.key) {
+      case 'Escape':
+        onClose()
+        break
+      case '+':
+      case '=':
+        zoom(ZOOM_STEP)
+        break
+      case '-':
+        zoom(1 / ZOOM_STEP)
+        break
+      case '0':
+        reset()
+        break
+      case 'ArrowLeft':
+        pan(PAN_STEP, 0)
+        break
+      case 'ArrowRight':
+        pan(-PAN_STEP, 0)
+        break
+      case 'ArrowUp':
+        pan(0, PAN_STEP)
+        break
+      case 'ArrowDown':
+        pan(0, -PAN_STEP)
+        break
+      default:
+        return
+    }
+    e.preventDefault()
+  }
+
+  const onPointerDown = (e: PointerEvent<HTMLDivElement>) => {
+    drag.current = { startX: e.clientX, startY: e.clientY, originX: view.x, originY: view.y, moved: false }
+  }
+
+  const onPointerMove = (e: PointerEvent<HTMLDivElement>) => {
+    const d = drag.current
+    if (!d) return
+    const dx = e.clientX - d.startX
+    const dy = e.clientY - d.startY
+    if (!d.moved && Math.hypot(dx, dy) < DRAG_THRESHOLD) return
+    if (!d.moved) e.currentTarget.setPointerCapture(e.pointerId)
+    d.moved = true
+    setView((v) => ({ ...v, x: d.originX + dx, y: d.originY + dy }))
+  }
+
+  const onPointerUp = () => {
+    // Keep `moved` until the click that follows has been swallowed
+    setTimeout(() => (drag.current = null))
+  }
+
+  const toolbarButton = 'p-2 text-slate-300 hover:text-white border border-slate-700 hover:border-accent rounded transition-colors'
+
+  return createPortal(
+    <div
+      ref={dialogRef}
+      role="dialog"
+      aria-modal="true"
+      aria-label={label}
+      onKeyDown={onKeyDown}
+      className="fixed inset-0 z-[9000] flex flex-col bg-slate-950/95"
+    >
+      <div className="flex items-center justify-between gap-4 px-4 py-3 border-b border-slate-800">
+        <span className="font-mono text-xs text-slate-400 truncate">{label}</span>
+        <div className="flex items-center gap-2">
+          {zoomable && (
+            <>
+              <button onClick={() => zoom(1 / ZOOM_STEP)} className={toolbarButton} aria-label={t('lightbox.zoomOut')}>
+                <Minus className="w-4 h-4" />
+              </button>
+              <span className="font-mono text-xs text-slate-400 w-12 text-center tabular-nums" aria-live="polite">
+                {Math.round(view.scale * 100)}%
+              </span>
+              <button onClick={() => zoom(ZOOM_STEP)} className={toolbarButton} aria-label={t('lightbox.zoomIn')}>
+                <Plus className="w-4 h-4" />
+              </button>
+              <button onClick={reset} className={toolbarButton} aria-label={t('lightbox.reset')}>
+                <RotateCcw className="w-4 h-4" />
+              </button>
+            </>
+          )}
+          <button ref={closeRef} onClick={onClose} className={toolbarButton} aria-label={t('lightbox.close')}>
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {zoomable ? (
+        <div
+          ref={stageRef}
+          className="relative flex-1 overflow-hidden cursor-grab active:cursor-grabbing touch-none"
+          onPointerDown={onPointerDown}
+          onPointerMove={onPointerMove}
+          onPointerUp={onPointerUp}
+          onPointerCancel={onPointerUp}
+          onClickCapture={(e) => {
+            if (drag.current?.moved) {
+              e.preventDefault()
+              e.stopPropagation()
+            }
+          }}
+        >
+          <div className="absolute inset-0 flex items-center justify-center p-4 md:p-10">
+            <div
+              className="w-full max-w-6xl"
+              style={{ transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})` }}
+            >
+              {children}
+            </div>
+          </div>
+        </div>
+      ) : (
+        <div data-lenis-prevent className="flex-1 overflow-auto">
+          <div className="min-h-full flex items-center justify-center p-4 md:p-10">
+            <div className="w-full max-w-6xl">{children}</div>
+          </div>
+        </div>
+      )}
+
+      {footer && <div className="border-t border-slate-800">{footer}</div>}
+    </div>,
+    document.body
+  )
+}
@@ -0,0 +1,71 @@
+import { useState } from 'react'
+import { ExternalLink, History } from 'lucide-react'
+import type { Project } from '../content'
+import Lightbox from './Lightbox'
+import CastPlayer from './CastPlayer'
+import ResponsiveImage from './ResponsiveImage'
+import { track } from '../lib/analytics'
+import { useT } from '../hooks/useT'
+
+type LiveDemoLinkProps = {
+  project: Project
+  className: string
+  /** Icon only, named by `aria-label`, as on the project cards */
+  compact?: boolean
+}
+
+/**
+ * Links to a project's live demo. While the demo is marked `down` it opens
+ * the project's archived screenshot or recording instead, and without one it
+ * renders nothing, so visitors never land on a dead page.
+ */
+export default function LiveDemoLink({ project, className, compact = false }: LiveDemoLinkProps) {
+  const t = useT()
+  const [open, setOpen] = useState(false)
+  const { live, liveStatus, archive } = project
+  const iconClass = compact ? 'w-5 h-5' : 'w-3 h-3'
+
+  if (!live) return null
+
+  if (liveStatus === 'up') {
+    return (
+      <a
+        href={live}
+        target="_blank"
+        rel="noopener noreferrer"
+        onClick={() => track('project_link_click', { project: project.slug, kind: 'live' })}
+        className={className}
+        aria-label={compact ? t('projects.demo') : undefined}
+      >
+        <ExternalLink className={iconClass} /> {!compact && t('project.demo')}
+      </a>
+    )
+  }
+
+  if (!archive) return null
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => {
+          setOpen(true)
+          track('project_link_click', { project: project.slug, kind: 'archive' })
+        }}
+        className={className}
+        aria-label={compact ? t(`projects.archive.${archive.type}`) : undefined}
+        aria-haspopup="dialog"
+      >
+        <History className={iconClass} /> {!compact && t(`project.archive.${archive.type}`)}
+      </button>
+      {/* The player's slider and keys would fight pan and zoom */}
+      <Lightbox open={open} onClose={() => setOpen(false)} label={archive.caption} zoomable={archive.type === 'image'}>
+        {archive.type === 'image' ? (
+          <ResponsiveImage src={archive.src} alt={archive.alt} className="w-full h-auto rounded-lg" zoomable={false} draggable={false} />
+        ) : (
+          <CastPlayer src={archive.src} alt={archive.alt} speed={archive.speed} />
+        )}
+      </Lightbox>
+    </>
+  )
+}
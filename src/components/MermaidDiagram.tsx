@@ -0,0 +1,16 @@
+import type { MermaidPanel } from '../content'
+import { useContentLang } from '../hooks/useContentLang'
+
+/** A Mermaid diagram, rendered to SVG at build time in the site's colors (plugins/content/mermaid.ts). */
+export default function MermaidDiagram({ panel }: { panel: MermaidPanel }) {
+  const lang = useContentLang()
+  return (
+    <div
+      lang={lang}
+      role="img"
+      aria-label={panel.alt}
+      className="p-4 bg-surface [&>svg]:block [&>svg]:w-full [&>svg]:h-auto"
+      dangerouslySetInnerHTML={{ __html: panel.svg }}
+    />
+  )
+}
@@ -1,17 +1,104 @@
-import { useState, useEffect } from 'react'
-import { Menu, X } from 'lucide-react'
-
-const navItems = [
-  { label: 'About', href: '#about' },
-  { label: 'Experience', href: '#experience' },
-  { label: 'Toolkit', href: '#toolkit' },
-  { label: 'Projects', href: '#projects' },
-  { label: 'Contact', href: '#contact' },
-]
-
-export default function Navigation() {
+import { useState, useEffect, useRef, type KeyboardEvent } from 'react'
+import { Menu, Moon, MousePointer2, Pause, Search, Sun, X } from 'lucide-react'
+import { navItems } from '../nav'
+import { cursor, motion } from '../lib/preferences'
+import { trapFocus } from '../lib/focus'
+import { track } from '../lib/analytics'
+import { useTheme } from '../hooks/useTheme'
+import { usePreference } from '../hooks/usePreference'
+import { useActiveSection } from '../hooks/useActiveSection'
+import { useT } from '../hooks/useT'
+import { localeNames, locales, localizePath } from '../i18n'
+import { Link, useLocale, usePathname } from '../router'
+
+const sectionIds = navItems.map((item) => item.id)
+
+const MOBILE_MENU_ID = 'mobile-menu'
+
+function ThemeToggle({ className }: { className: string }) {
+  const t = useT()
+  const [theme, setTheme] = useTheme()
+  const label = theme === 'dark' ? t('nav.themeLight') : t('nav.themeDark')
+  return (
+    <button onClick={() => setTheme(theme === 'dark' ? 'light' : 'dark')} className={className} aria-label={label} title={label}>
+      {theme === 'dark' ? <Sun className="w-4 h-4" /> : <Moon className="w-4 h-4" />}
+    </button>
+  )
+}
+
+/** Turns animations and smooth scrolling off (or back on), whatever the OS setting says. */
+function MotionToggle({ className, showLabel = false }: { className: string; showLabel?: boolean }) {
+  const t = useT()
+  const [value, setValue] = usePreference(motion, 'full')
+  return (
+    <button
+      onClick={() => setValue(value === 'reduce' ? 'full' : 'reduce')}
+      aria-pressed={value === 'reduce'}
+      aria-label={showLabel ? undefined : t('nav.reduceMotion')}
+      title={t('nav.reduceMotion')}
+      className={`${className} aria-pressed:text-accent`}
+    >
+      <Pause className="w-4 h-4" />
+      {showLabel && t('nav.reduceMotion')}
+    </button>
+  )
+}
+
+function CursorToggle({ className, showLabel = false }: { className: string; showLabel?: boolean }) {
+  const t = useT()
+  const [value, setValue] = usePreference(cursor, 'off')
+  return (
+    <button
+      onClick={() => setValue(value === 'on' ? 'off' : 'on')}
+      aria-pressed={value === 'on'}
+      aria-label={showLabel ? undefined : t('nav.customCursor')}
+      title={t('nav.customCursor')}
+      className={`${className} aria-pressed:text-accent`}
+    >
+      <MousePointer2 className="w-4 h-4" />
+      {showLabel && t('nav.customCursor')}
+    </button>
+  )
+}
+
+/** Links to the current page in each locale. */
+function LanguageSwitcher({ className = '' }: { className?: string }) {
+  const t = useT()
+  const pathname = usePathname()
+  const current = useLocale()
+  return (
+    <div role="group" aria-label={t('nav.language')} className={`flex items-center gap-1 font-mono text-xs ${className}`}>
+      {locales.map((locale, i) => (
+        <span key={locale} className="flex items-center gap-1">
+          {i > 0 && <span className="text-faint" aria-hidden="true">/</span>}
+          <Link
+            to={pathname}
+            locale={locale}
+            hrefLang={locale}
+            lang={locale}
+            aria-label={localeNames[locale]}
+            aria-current={locale === current ? 'page' : undefined}
+            className={`px-1 uppercase transition-colors ${locale === current ? 'text-accent' : 'text-muted hover:text-accent'}`}
+          >
+            {locale}
+          </Link>
+        </span>
+      ))}
+    </div>
+  )
+}
+
+export default function Navigation({ onSearch }: { onSearch: () => void }) {
+  const t = useT()
+  const locale = useLocale()
+  const pathname = usePathname()
+  const active = useActiveSection(sectionIds, pathname)
+  const previousActive = useRef(active)
   const [scrolled, setScrolled] = useState(false)
   const [mobileOpen, setMobileOpen] = useState(false)
+  const menuButtonRef = useRef<HTMLButtonElement>(null)
+  const mobileMenuRef = useRef<HTMLDivElement>(null)
+  const [shortcut, setShortcut] = useState('Ctrl K')
 
   useEffect(() => {
     const handleScroll = () => setScrolled(window.scrollY > 20)
@@ -19,42 +106,119 @@ export default function Navigation() {
     return () => window.removeEventListener('scroll', handleScroll)
   }, [])
 
+  // Keep the hash on the section in view, without adding history entries.
+  // Only on changes, so a deep link's hash survives until its jump has happened.
+  useEffect(() => {
+    if (active === previousActive.current) return
+    previousActive.current = active
+    if (pathname !== '/') return
+    const { pathname: path, search, hash } = window.location
+    const next = active ? `#${active}` : ''
+    if (hash !== next) window.history.replaceState(window.history.state, '', `${path}${search}${next}`)
+  }, [active, pathname])
+
+  // Opening the menu moves focus into it
+  useEffect(() => {
+    if (mobileOpen) mobileMenuRef.current?.querySelector<HTMLElement>('a, button')?.focus()
+  }, [mobileOpen])
+
+  const closeMobileMenu = () => {
+    setMobileOpen(false)
+    menuButtonRef.current?.focus()
+  }
+
+  // While open, Tab cycles through the menu and its button, and Escape closes it
+  const onKeyDown = (e: KeyboardEvent<HTMLElement>) => {
+    if (!mobileOpen) return
+    if (e.key === 'Escape') {
+      e.preventDefault()
+      closeMobileMenu()
+    } else {
+      trapFocus(e, e.currentTarget)
+    }
+  }
+
+  // Set after mount so the prerendered markup doesn't depend on the platform
+  useEffect(() => {
+    if (/Mac|iPhone|iPad/.test(navigator.platform)) setShortcut('⌘K')
+  }, [])
+
   return (
-    <nav className={`fixed top-0 left-0 right-0 z-50 transition-all duration-300 ${scrolled ? 'bg-cream-100/95 backdrop-blur-sm border-b border-slate-200' : ''}`}>
+    <nav onKeyDown={onKeyDown} className={`fixed top-0 left-0 right-0 z-50 transition-all duration-300 ${scrolled ? 'bg-canvas/95 backdrop-blur-sm border-b border-line' : ''}`}>
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
         <div className="flex items-center justify-between h-16">
-          <a href="#" className="font-mono font-bold text-lg text-slate-900 glitch-hover">CS.</a>
+          <a href={localizePath('/', locale)} className="font-mono font-bold text-lg text-heading glitch-hover">CS.</a>
           <div className="hidden md:flex items-center gap-8">
             {navItems.map((item) => (
               <a
-                key={item.label}
-                href={item.href}
-                className="font-mono text-xs tracking-wider uppercase text-slate-600 hover:text-rose transition-colors"
+                key={item.id}
+                href={localizePath(item.href, locale)}
+                aria-current={active === item.id ? 'location' : undefined}
+                onClick={() => track('nav_click', { section: item.id, menu: 'bar' })}
+                className={`relative font-mono text-xs tracking-wider uppercase hover:text-accent transition-colors ${active === item.id ? 'text-accent' : 'text-body'}`}
               >
-                {item.label}
+                {t(`nav.${item.id}`)}
+                <span
+                  aria-hidden="true"
+                  className={`absolute -bottom-1.5 left-0 right-0 h-px bg-accent origin-left transition-transform duration-300 ${active === item.id ? 'scale-x-100' : 'scale-x-0'}`}
+                />
               </a>
             ))}
+            <button
+              onClick={onSearch}
+              className="flex items-center gap-2 px-2.5 py-1.5 font-mono text-xs text-muted hover:text-accent border border-line hover:border-accent/40 rounded-md transition-colors"
+              aria-label={t('nav.search')}
+              aria-keyshortcuts="Control+K Meta+K"
+            >
+              <Search className="w-3.5 h-3.5" />
+              <kbd className="text-[10px] text-faint">{shortcut}</kbd>
+            </button>
+            <div className="-ml-5 flex items-center">
+              <ThemeToggle className="p-2 text-muted hover:text-accent transition-colors" />
+              <MotionToggle className="p-2 text-muted hover:text-accent transition-colors" />
+              <CursorToggle className="p-2 text-muted hover:text-accent transition-colors" />
+              <LanguageSwitcher />
+            </div>
+          </div>
+          <div className="md:hidden flex items-center gap-1">
+            <button className="p-2 text-strong" onClick={onSearch} aria-label={t('nav.search')}>
+              <Search className="w-5 h-5" />
+            </button>
+            <ThemeToggle className="p-2 text-strong" />
+            <button
+              ref={menuButtonRef}
+              className="p-2 text-strong"
+              onClick={() => setMobileOpen(!mobileOpen)}
+              aria-label={mobileOpen ? t('nav.closeMenu') : t('nav.openMenu')}
+              aria-expanded={mobileOpen}
+              aria-controls={MOBILE_MENU_ID}
+            >
+              {mobileOpen ? <X className="w-5 h-5" /> : <Menu className="w-5 h-5" />}
+            </button>
           </div>
-          <button
-            className="md:hidden p-2 text-slate-700"
-            onClick={() => setMobileOpen(!mobileOpen)}
-          >
-            {mobileOpen ? <X className="w-5 h-5" /> : <Menu className="w-5 h-5" />}
-          </button>
         </div>
       </div>
       {mobileOpen && (
-        <div className="md:hidden bg-cream-100 border-b border-slate-200 px-4 py-4 space-y-3">
+        <div ref={mobileMenuRef} id={MOBILE_MENU_ID} className="md:hidden bg-canvas border-b border-line px-4 py-4 space-y-3">
           {navItems.map((item) => (
             <a
-              key={item.label}
-              href={item.href}
-              className="block font-mono text-xs tracking-wider uppercase text-slate-600 hover:text-rose transition-colors py-1"
-              onClick={() => setMobileOpen(false)}
+              key={item.id}
+              href={localizePath(item.href, locale)}
+              aria-current={active === item.id ? 'location' : undefined}
+              className={`block font-mono text-xs tracking-wider uppercase hover:text-accent transition-colors py-1 ${active === item.id ? 'text-accent' : 'text-body'}`}
+              onClick={() => {
+                track('nav_click', { section: item.id, menu: 'mobile' })
+                setMobileOpen(false)
+              }}
             >
-              {item.label}
+              {t(`nav.${item.id}`)}
             </a>
           ))}
+          <div className="flex flex-col items-start gap-1 pt-2">
+            <MotionToggle showLabel className="flex items-center gap-2 py-1 font-mono text-xs text-body hover:text-accent transition-colors" />
+            <CursorToggle showLabel className="flex items-center gap-2 py-1 font-mono text-xs text-body hover:text-accent transition-colors" />
+          </div>
+          <LanguageSwitcher className="pt-2 -ml-1" />
         </div>
       )}
     </nav>
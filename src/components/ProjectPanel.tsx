@@ -0,0 +1,51 @@
+import type { ComponentType } from 'react'
+import type { Panel } from '../content'
+import TerminalPlayer from './TerminalPlayer'
+import CastPlayer from './CastPlayer'
+import DiagramViewer from './DiagramViewer'
+import ResponsiveImage from './ResponsiveImage'
+import CodeExcerpt from './CodeExcerpt'
+import VideoPlayer from './VideoPlayer'
+import ImageCarousel from './ImageCarousel'
+import MermaidDiagram from './MermaidDiagram'
+import { useContentLang } from '../hooks/useContentLang'
+
+/** Width of the panel on a project card: half of the 1280px container, full width on phones */
+const CARD_SIZES = '(min-width: 1280px) 600px, (min-width: 768px) 50vw, 100vw'
+
+type PanelProps<P extends Panel> = {
+  panel: P
+  /** `sizes` for the panel's images */
+  sizes: string
+}
+
+/**
+ * The component for each panel `type`. A new type in `Panel` fails the type
+ * check until it has an entry here.
+ */
+const panels: { [T in Panel['type']]: ComponentType<PanelProps<Extract<Panel, { type: T }>>> } = {
+  image: ({ panel, sizes }) => <ResponsiveImage src={panel.src} alt={panel.alt} sizes={sizes} className="w-full h-auto" />,
+  terminal: ({ panel }) => <TerminalPlayer lines={panel.lines} />,
+  cast: ({ panel }) => <CastPlayer src={panel.src} alt={panel.alt} speed={panel.speed} />,
+  diagram: DiagramViewer,
+  code: CodeExcerpt,
+  video: VideoPlayer,
+  carousel: ImageCarousel,
+  mermaid: MermaidDiagram,
+}
+
+export default function ProjectPanel({ panel, sizes = CARD_SIZES }: { panel: Panel; sizes?: string }) {
+  // `panels[panel.type]` takes this panel's type; TypeScript can't correlate the two on its own
+  const View = panels[panel.type] as ComponentType<PanelProps<Panel>>
+  const lang = useContentLang()
+  return (
+    <div className="relative w-full rounded-lg overflow-hidden border border-line">
+      <div className="flex items-center gap-2 px-4 py-2 border-b border-line-subtle bg-surface-muted">
+        <div className="w-2 h-2 rounded-full bg-accent/60" />
+        <span lang={lang} className="font-mono text-xs text-faint">{panel.caption}</span>
+      </div>
+
+      <View panel={panel} sizes={sizes} />
+    </div>
+  )
+}
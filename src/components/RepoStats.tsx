@@ -0,0 +1,76 @@
+import { Clock, Star, Tag } from 'lucide-react'
+import type { RepoStats as Stats } from '../content'
+import { formatDate } from '../i18n'
+import { useLocale } from '../router'
+import { useT } from '../hooks/useT'
+
+/** GitHub's own colors for the languages these repositories use */
+const LANGUAGE_COLORS: Record<string, string> = {
+  TypeScript: '#3178c6',
+  JavaScript: '#f1e05a',
+  Python: '#3572a5',
+  HTML: '#e34c26',
+  CSS: '#563d7c',
+  Shell: '#89e051',
+  HCL: '#844fba',
+  Dockerfile: '#384d54',
+  Go: '#00add8',
+  Java: '#b07219',
+  'Jupyter Notebook': '#da5b0b',
+}
+
+/** Languages under this share of the code are left out of the legend */
+const LEGEND_MIN_SHARE = 0.02
+
+const languageColor = (name: string) => LANGUAGE_COLORS[name] ?? 'rgb(var(--color-faint))'
+
+/** Last update, stars, latest release and a bar of the languages of a project's repository. */
+export default function RepoStats({ stats }: { stats: Stats }) {
+  const t = useT()
+  const locale = useLocale()
+  const total = stats.languages.reduce((sum, { bytes }) => sum + bytes, 0)
+  const languages = stats.languages.map(({ name, bytes }) => ({ name, share: total > 0 ? bytes / total : 0 }))
+  const percent = (share: number) => `${Math.max(share * 100, 0.1).toFixed(1)}%`
+
+  return (
+    <div className="mb-6 font-mono text-xs">
+      <div className="flex flex-wrap items-center gap-2 mb-3 text-muted">
+        <span className="inline-flex items-center gap-1.5 px-2 py-1 border border-line bg-surface-muted rounded">
+          <Clock className="w-3 h-3" aria-hidden="true" />
+          {t('projects.updated', { date: formatDate(stats.lastCommit, locale) })}
+        </span>
+        <span className="inline-flex items-center gap-1.5 px-2 py-1">
+          <Star className="w-3 h-3" aria-hidden="true" />
+          {t(stats.stars === 1 ? 'projects.stars.one' : 'projects.stars.other', { count: stats.stars })}
+        </span>
+        {stats.latestRelease && (
+          <span className="inline-flex items-center gap-1.5 px-2 py-1">
+            <Tag className="w-3 h-3" aria-hidden="true" />
+            {stats.latestRelease.tag}
+          </span>
+        )}
+      </div>
+
+      {languages.length > 0 && (
+        <>
+          {/* The legend below says the same in text */}
+          <div className="flex h-1.5 overflow-hidden rounded-full bg-surface-sunken" aria-hidden="true">
+            {languages.map(({ name, share }) => (
+              <span key={name} className="h-full" style={{ width: percent(share), backgroundColor: languageColor(name) }} />
+            ))}
+          </div>
+          <ul className="flex flex-wrap gap-x-4 gap-y-1 mt-2 text-muted" aria-label={t('projects.languages')}>
+            {languages
+              .filter(({ share }) => share >= LEGEND_MIN_SHARE)
+              .map(({ name, share }) => (
+                <li key={name} className="inline-flex items-center gap-1.5">
+                  <span className="w-2 h-2 rounded-full" style={{ backgroundColor: languageColor(name) }} aria-hidden="true" />
+                  {name} {percent(share)}
+                </li>
+              ))}
+          </ul>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,87 @@
+import { useEffect, useRef, useState } from 'react'
+import { images } from '../content'
+import Lightbox from './Lightbox'
+import { useT } from '../hooks/useT'
+
+type ResponsiveImageProps = {
+  /** Path under `public/`, as written in `content/` */
+  src: string
+  alt: string
+  /** Width the image is shown at, for picking a variant; defaults to the full viewport */
+  sizes?: string
+  className?: string
+  /** Opens the image full screen when clicked; off inside viewers that handle clicks themselves */
+  zoomable?: boolean
+  /** Loads right away instead of when scrolled near, for images in the first screenful */
+  eager?: boolean
+  draggable?: boolean
+}
+
+type PictureProps = Pick<ResponsiveImageProps, 'src' | 'alt' | 'sizes' | 'className' | 'eager' | 'draggable'>
+
+function Picture({ src, alt, sizes = '100vw', className = '', eager = false, draggable }: PictureProps) {
+  const asset = images[src]
+  const imgRef = useRef<HTMLImageElement>(null)
+  const [loaded, setLoaded] = useState(false)
+
+  // A cached image can finish loading before hydration attaches `onLoad`
+  useEffect(() => {
+    if (imgRef.current?.complete) setLoaded(true)
+  }, [])
+
+  if (!asset) return <img src={src} alt={alt} className={className} loading={eager ? 'eager' : 'lazy'} draggable={draggable} />
+
+  return (
+    <picture>
+      {asset.sources.map(({ type, srcset }) => (
+        <source key={type} type={type} srcSet={srcset} sizes={sizes} />
+      ))}
+      <img
+        ref={imgRef}
+        src={asset.src}
+        srcSet={asset.srcset}
+        sizes={sizes}
+        width={asset.width}
+        height={asset.height}
+        alt={alt}
+        loading={eager ? 'eager' : 'lazy'}
+        decoding="async"
+        draggable={draggable}
+        onLoad={() => setLoaded(true)}
+        className={className}
+        // Removed once loaded, so it can't show through transparent pixels
+        style={loaded ? undefined : { backgroundImage: `url(${asset.placeholder})`, backgroundSize: 'cover' }}
+      />
+    </picture>
+  )
+}
+
+/**
+ * An image from `content/`, served from the variants plugins/images
+ * generates: AVIF or WebP where supported, sized to `sizes`, lazy-loaded
+ * behind a blurred placeholder, with its intrinsic size set so nothing shifts
+ * when it arrives. Images the pipeline doesn't know render as a plain `<img>`.
+ */
+export default function ResponsiveImage({ zoomable = true, ...picture }: ResponsiveImageProps) {
+  const t = useT()
+  const [open, setOpen] = useState(false)
+
+  if (!zoomable) return <Picture {...picture} />
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        aria-haspopup="dialog"
+        aria-label={t('image.enlarge', { alt: picture.alt })}
+        className="block w-full cursor-zoom-in focus:outline-none focus-visible:ring-2 focus-visible:ring-accent/60"
+      >
+        <Picture {...picture} />
+      </button>
+      <Lightbox open={open} onClose={() => setOpen(false)} label={picture.alt}>
+        <Picture src={picture.src} alt={picture.alt} className="w-full h-auto" eager draggable={false} />
+      </Lightbox>
+    </>
+  )
+}
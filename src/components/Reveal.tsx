@@ -0,0 +1,14 @@
+import type { HTMLAttributes } from 'react'
+import { useReveal, type RevealOptions } from '../hooks/useReveal'
+
+type RevealProps = HTMLAttributes<HTMLElement> &
+  RevealOptions & {
+    as?: 'div' | 'section' | 'header'
+  }
+
+/** A block that fades up the first time it scrolls into view; see `useReveal`. */
+export default function Reveal({ as: Tag = 'div', stagger, className = '', ...props }: RevealProps) {
+  // Typed for the narrowest tag; a section or header accepts the same ref
+  const ref = useReveal<HTMLDivElement>({ stagger })
+  return <Tag ref={ref} className={`reveal ${className}`} {...props} />
+}
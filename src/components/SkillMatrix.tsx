@@ -0,0 +1,100 @@
+import { AlertTriangle } from 'lucide-react'
+import { experiences, projects, skillRegistry, toolkit } from '../content'
+import { skillEvidence, yearsOfUse } from '../lib/skills'
+import { Link, projectPath } from '../router'
+import { useT } from '../hooks/useT'
+import { useContentLang } from '../hooks/useContentLang'
+import TagChip from './TagChip'
+
+/**
+ * Where each toolkit skill is demonstrated: the projects tagged with it, the
+ * roles that used it and for how long. Skills with neither are flagged.
+ */
+export default function SkillMatrix({ id }: { id: string }) {
+  const t = useT()
+  const lang = useContentLang()
+  const currentYear = new Date().getFullYear()
+
+  const groups = toolkit.map((group) => ({
+    group,
+    rows: group.items.map((skill) => {
+      const evidence = skillEvidence({ projects, experiences, toolkit }, skillRegistry, skill)
+      return { skill, ...evidence, years: yearsOfUse(evidence.roles, currentYear) }
+    }),
+  }))
+  const rows = groups.flatMap(({ rows }) => rows)
+  const unsupported = rows.filter((row) => row.projects.length === 0 && row.roles.length === 0).length
+
+  const years = (count: number) =>
+    count === 0 ? t('skills.years.underOne') : t(count === 1 ? 'skills.years.one' : 'skills.years.other', { count })
+
+  return (
+    <div id={id} className="mt-8 border border-line bg-surface rounded-lg shadow-sm overflow-x-auto">
+      <table className="w-full text-left text-sm">
+        <caption className="px-6 py-4 text-left font-mono text-xs text-faint border-b border-line-subtle">
+          {t('skills.caption')}
+          {unsupported > 0 && (
+            <span className="block mt-1 text-warning">{t('skills.unsupportedCount', { count: unsupported, total: rows.length })}</span>
+          )}
+        </caption>
+        <thead>
+          <tr className="font-mono text-[10px] tracking-wider uppercase text-faint">
+            <th scope="col" className="px-6 py-3 font-normal">{t('skills.skill')}</th>
+            <th scope="col" className="px-6 py-3 font-normal">{t('skills.projects')}</th>
+            <th scope="col" className="px-6 py-3 font-normal">{t('skills.roles')}</th>
+            <th scope="col" className="px-6 py-3 font-normal text-right">{t('skills.years')}</th>
+          </tr>
+        </thead>
+        {groups.map(({ group, rows }) => (
+          <tbody key={group.title} lang={lang} className="border-t border-line-subtle">
+            <tr>
+              <th scope="colgroup" colSpan={4} className="px-6 pt-4 pb-2 font-mono text-xs font-semibold tracking-wider text-strong">
+                {group.title}
+              </th>
+            </tr>
+            {rows.map((row) => (
+              <tr key={row.skill} className="align-top">
+                <th scope="row" className="px-6 py-2 font-normal">
+                  <TagChip tag={row.skill} />
+                </th>
+                {row.projects.length === 0 && row.roles.length === 0 ? (
+                  <td colSpan={3} className="px-6 py-2">
+                    <span className="inline-flex items-center gap-2 font-mono text-xs text-warning">
+                      <AlertTriangle className="w-3.5 h-3.5 shrink-0" /> {t('skills.unsupported')}
+                    </span>
+                  </td>
+                ) : (
+                  <>
+                    <td className="px-6 py-2">
+                      <ul className="space-y-1">
+                        {row.projects.map((project) => (
+                          <li key={project.slug}>
+                            <Link to={projectPath(project)} className="text-body hover:text-accent transition-colors">
+                              {project.title}
+                            </Link>
+                          </li>
+                        ))}
+                      </ul>
+                    </td>
+                    <td className="px-6 py-2">
+                      <ul className="space-y-1">
+                        {row.roles.map((role) => (
+                          <li key={`${role.company} ${role.title}`} className="text-body">
+                            {role.title} <span className="text-faint">· {role.company}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    </td>
+                    <td className="px-6 py-2 text-right font-mono text-xs text-strong whitespace-nowrap">
+                      {row.roles.length > 0 ? years(row.years) : <span className="text-faint">—</span>}
+                    </td>
+                  </>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        ))}
+      </table>
+    </div>
+  )
+}
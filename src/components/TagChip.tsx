@@ -0,0 +1,26 @@
+import { useT } from '../hooks/useT'
+import { useTagFilter } from '../hooks/useTagFilter'
+
+/**
+ * A technology chip that sets the cross-section tag filter (see
+ * `useTagFilter`); pressed while its tag is the active one.
+ */
+export default function TagChip({ tag, id, className = '' }: { tag: string; id?: string; className?: string }) {
+  const t = useT()
+  const filter = useTagFilter()
+  const active = filter.matches([tag])
+  return (
+    <button
+      type="button"
+      id={id}
+      onClick={() => filter.toggle(tag)}
+      aria-pressed={active}
+      title={active ? t('filter.clear') : t('filter.by', { tag })}
+      className={`px-2 py-1 text-xs font-mono border transition-colors rounded ${
+        active ? 'bg-accent text-accent-contrast border-accent' : `bg-surface-sunken text-body border-line hover:border-accent/60 hover:text-accent ${className}`
+      }`}
+    >
+      {tag}
+    </button>
+  )
+}
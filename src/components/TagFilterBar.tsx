@@ -0,0 +1,60 @@
+import { X } from 'lucide-react'
+import { experiences, projects, skillRegistry, toolkit } from '../content'
+import { skillEvidence } from '../lib/skills'
+import { projectAnchor, roleAnchor, scrollToAnchor, skillAnchor } from '../lib/anchors'
+import { useT } from '../hooks/useT'
+import { useTagFilter } from '../hooks/useTagFilter'
+
+/**
+ * Shown while a tag filter is active: the tag, how many projects, roles and
+ * toolkit cards list it (each jumps to its section) and a clear button.
+ */
+export default function TagFilterBar() {
+  const t = useT()
+  const filter = useTagFilter()
+  if (filter.tag === null) return null
+
+  const tag = filter.tag
+  const matches = skillEvidence({ projects, experiences, toolkit }, skillRegistry, tag)
+  const group = matches.toolkit[0]
+  const skill = group?.items.find((item) => skillRegistry.same(item, tag))
+  // Each count jumps to the first match in its section
+  const counts = [
+    { label: t('filter.projects'), count: matches.projects.length, anchor: matches.projects[0] && projectAnchor(matches.projects[0]) },
+    { label: t('filter.roles'), count: matches.roles.length, anchor: matches.roles[0] && roleAnchor(matches.roles[0]) },
+    { label: t('filter.toolkit'), count: matches.toolkit.length, anchor: group && skill && skillAnchor(group, skill) },
+  ]
+
+  return (
+    <div
+      role="region"
+      aria-label={t('filter.region')}
+      className="fixed bottom-6 left-1/2 -translate-x-1/2 z-40 w-[calc(100%-2rem)] max-w-2xl flex flex-wrap items-center gap-x-4 gap-y-2 px-4 py-3 bg-surface border border-accent/40 rounded-lg shadow-xl font-mono text-xs"
+    >
+      <span className="text-faint tracking-wider">{t('filter.label')}</span>
+      <span className="px-2 py-1 bg-accent text-accent-contrast rounded">{tag}</span>
+      <span aria-live="polite" className="flex flex-wrap items-center gap-3 text-muted">
+        {counts.every(({ count }) => count === 0)
+          ? t('filter.none')
+          : counts.map(({ label, count, anchor }) => (
+              <button
+                key={label}
+                type="button"
+                onClick={() => anchor && scrollToAnchor(anchor)}
+                disabled={!anchor}
+                className="hover:text-accent disabled:opacity-50 disabled:hover:text-muted transition-colors"
+              >
+                {label} <span className="text-strong">{count}</span>
+              </button>
+            ))}
+      </span>
+      <button
+        type="button"
+        onClick={filter.clear}
+        className="ml-auto flex items-center gap-1 text-muted hover:text-accent transition-colors"
+      >
+        <X className="w-3.5 h-3.5" /> {t('filter.clear')}
+      </button>
+    </div>
+  )
+}
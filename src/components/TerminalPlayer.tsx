@@ -0,0 +1,171 @@
+import { useEffect, useRef, useState } from 'react'
+import { RotateCcw, SkipForward } from 'lucide-react'
+import type { TerminalLine, TerminalLineKind } from '../content'
+import { useReducedMotion } from '../hooks/useReducedMotion'
+import { useT } from '../hooks/useT'
+import { useContentLang } from '../hooks/useContentLang'
+
+const kindClasses: Record<TerminalLineKind, string> = {
+  command: 'text-accent',
+  output: 'text-slate-500',
+  success: 'text-emerald-400',
+  warning: 'text-amber-400',
+  'key-value': 'text-slate-300',
+  comment: 'text-slate-600 italic',
+}
+
+/** Pause before a line appears when it doesn't set its own `delay` */
+const DEFAULT_DELAY: Record<TerminalLineKind, number> = {
+  command: 350,
+  output: 120,
+  success: 120,
+  warning: 120,
+  'key-value': 120,
+  comment: 120,
+}
+
+/** Milliseconds per typed character of a command */
+const TYPE_SPEED = 28
+
+/**
+ * `static` — the final state with no controls (prerender, reduced motion).
+ * `idle` — reset and waiting to scroll into view.
+ */
+type Status = 'static' | 'idle' | 'playing' | 'done'
+
+/** Lines before `line` are fully shown; line `line` shows its first `chars` characters. */
+type Position = { line: number; chars: number }
+
+const START: Position = { line: 0, chars: 0 }
+
+function LineText({ line }: { line: TerminalLine }) {
+  if (line.kind !== 'key-value') return <>{line.text}</>
+  const split = line.text.indexOf(':')
+  if (split === -1) return <>{line.text}</>
+  return (
+    <>
+      <span className="text-slate-400">{line.text.slice(0, split + 1)}</span>
+      <span className="text-slate-200">{line.text.slice(split + 1)}</span>
+    </>
+  )
+}
+
+/**
+ * Plays terminal output like a recording once it scrolls into view: commands
+ * are typed out, other lines appear after their delay. Every line is always
+ * laid out, so the panel never changes height while it plays.
+ */
+export default function TerminalPlayer({ lines }: { lines: TerminalLine[] }) {
+  const t = useT()
+  const lang = useContentLang()
+  const ref = useRef<HTMLDivElement>(null)
+  const reducedMotion = useReducedMotion()
+  const end: Position = { line: lines.length, chars: 0 }
+  const [status, setStatus] = useState<Status>('static')
+  const [position, setPosition] = useState<Position>(end)
+
+  // Reset and wait for the panel to come into view
+  useEffect(() => {
+    if (reducedMotion) {
+      setStatus('static')
+      setPosition({ line: lines.length, chars: 0 })
+      return
+    }
+
+    setStatus('idle')
+    setPosition(START)
+    const el = ref.current
+    if (!el) return
+    const observer = new IntersectionObserver(
+      ([entry]) => {
+        if (entry.isIntersecting) {
+          setStatus((prev) => (prev === 'idle' ? 'playing' : prev))
+          observer.disconnect()
+        }
+      },
+      { threshold: 0.4 }
+    )
+    observer.observe(el)
+    return () => observer.disconnect()
+  }, [reducedMotion, lines.length])
+
+  // Advance one step at a time while playing
+  useEffect(() => {
+    if (status !== 'playing') return
+    if (position.line >= lines.length) {
+      setStatus('done')
+      return
+    }
+
+    const current = lines[position.line]
+    const typed = current.kind === 'command' && current.text.length > 0
+    let wait: number
+    let next: Position
+
+    if (position.chars === 0) {
+      wait = current.delay ?? DEFAULT_DELAY[current.kind]
+      next = typed ? { line: position.line, chars: 1 } : { line: position.line + 1, chars: 0 }
+    } else if (position.chars < current.text.length) {
+      wait = TYPE_SPEED
+      next = { line: position.line, chars: position.chars + 1 }
+    } else {
+      wait = 0
+      next = { line: position.line + 1, chars: 0 }
+    }
+
+    const timer = setTimeout(() => setPosition(next), wait)
+    return () => clearTimeout(timer)
+  }, [status, position, lines])
+
+  const skip = () => {
+    setPosition({ line: lines.length, chars: 0 })
+    setStatus('done')
+  }
+
+  const replay = () => {
+    setPosition(START)
+    setStatus('playing')
+  }
+
+  return (
+    <div ref={ref} className="relative bg-slate-950 p-5 font-mono text-xs leading-relaxed min-h-[220px] overflow-x-auto">
+      {(status === 'idle' || status === 'playing') && (
+        <button
+          onClick={skip}
+          className="absolute top-3 right-3 flex items-center gap-1 px-2 py-1 text-[10px] tracking-wider text-slate-500 hover:text-accent border border-slate-800 hover:border-accent/40 rounded transition-colors"
+        >
+          <SkipForward className="w-3 h-3" /> {t('terminal.skip')}
+        </button>
+      )}
+      {status === 'done' && (
+        <button
+          onClick={replay}
+          className="absolute top-3 right-3 flex items-center gap-1 px-2 py-1 text-[10px] tracking-wider text-slate-500 hover:text-accent border border-slate-800 hover:border-accent/40 rounded transition-colors"
+        >
+          <RotateCcw className="w-3 h-3" /> {t('terminal.replay')}
+        </button>
+      )}
+
+      {/* Full transcript for screen readers; the animated copy is hidden from them */}
+      <pre lang={lang} className="sr-only">{lines.map((line) => line.text).join('\n')}</pre>
+
+      <div lang={lang} aria-hidden="true">
+        {lines.map((line, i) => {
+          const shown = i < position.line
+          const typing = i === position.line && position.chars > 0
+
+          return (
+            <div key={i} className={line.text === '' ? 'h-3' : 'whitespace-pre'}>
+              {line.text !== '' && (
+                <span className={`${kindClasses[line.kind]} ${shown || typing ? '' : 'invisible'}`}>
+                  {typing ? line.text.slice(0, position.chars) : <LineText line={line} />}
+                </span>
+              )}
+              {typing && <span className="inline-block w-2 h-3.5 bg-accent/70 ml-0.5 align-middle animate-pulse" />}
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
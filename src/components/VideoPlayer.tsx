@@ -0,0 +1,33 @@
+import { images, type VideoPanel } from '../content'
+
+const MIME_TYPES: Record<string, string> = { mp4: 'video/mp4', webm: 'video/webm' }
+
+const mimeType = (src: string) => MIME_TYPES[src.slice(src.lastIndexOf('.') + 1)]
+
+/**
+ * A self-hosted video with the browser's own controls and caption tracks.
+ * Nothing downloads until it is played; the poster's size (from the image
+ * pipeline) reserves the player's space.
+ */
+export default function VideoPlayer({ panel }: { panel: VideoPanel }) {
+  const poster = images[panel.poster]
+  return (
+    <video
+      controls
+      playsInline
+      preload="none"
+      poster={poster?.src ?? panel.poster}
+      width={poster?.width}
+      height={poster?.height}
+      aria-label={panel.alt}
+      className="block w-full h-auto bg-slate-950"
+    >
+      {panel.sources.map((src) => (
+        <source key={src} src={src} type={mimeType(src)} />
+      ))}
+      {panel.captions.map((track, i) => (
+        <track key={track.src} kind="captions" src={track.src} srcLang={track.lang} label={track.label} default={i === 0} />
+      ))}
+    </video>
+  )
+}
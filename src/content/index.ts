@@ -0,0 +1,9 @@
+import { skills } from 'virtual:content'
+import { createSkillRegistry } from '../lib/skills'
+
+export { projects, posts, experiences, toolkit, skills, aboutCards, terminalLines, contactLinks } from 'virtual:content'
+export { images } from 'virtual:images'
+export type * from './types'
+
+/** Resolves the names a skill goes by across the site; see content/skills.yaml. */
+export const skillRegistry = createSkillRegistry(skills)
@@ -0,0 +1,291 @@
+import type { Locale, MessageKey } from '../i18n'
+
+export const iconNames = ['zap', 'code', 'users', 'cloud', 'book', 'linkedin', 'github', 'globe'] as const
+export type IconName = (typeof iconNames)[number]
+
+export const accents = ['rose', 'blue', 'amber'] as const
+export type Accent = (typeof accents)[number]
+
+export type ImagePanel = {
+  type: 'image'
+  /** Path under `public/`, e.g. `/Playdough-AWS-Architecture.png` */
+  src: string
+  alt: string
+  caption: string
+}
+
+/**
+ * A raster image referenced by `content/`, resized and re-encoded at build
+ * time (plugins/images). URLs include a hash of the original, so they can be
+ * cached forever.
+ */
+export type ImageAsset = {
+  /** Intrinsic size of the original, for `width` and `height` */
+  width: number
+  height: number
+  /** A tiny copy as a data URI, shown blurred until the image loads */
+  placeholder: string
+  /** AVIF, then WebP: each a `type` and a `srcset` of the resized variants */
+  sources: { type: string; srcset: string }[]
+  /** Largest variant in the original format, for browsers that take neither */
+  src: string
+  srcset: string
+}
+
+export const terminalLineKinds = ['command', 'output', 'success', 'warning', 'key-value', 'comment'] as const
+export type TerminalLineKind = (typeof terminalLineKinds)[number]
+
+export type TerminalLine = {
+  kind: TerminalLineKind
+  text: string
+  /** Milliseconds to wait before this line appears during playback */
+  delay?: number
+}
+
+export type TerminalPanel = {
+  type: 'terminal'
+  caption: string
+  lines: TerminalLine[]
+}
+
+export type CaseStudyMetric = {
+  label: string
+  /** Display value, e.g. `1,842` or `$0.04` */
+  value: string
+  note?: string
+}
+
+/**
+ * Optional long-form sections for a project page. Prose fields are Markdown in
+ * `content/` and arrive here rendered to HTML; list items are inline HTML.
+ */
+export type CaseStudy = {
+  problem?: string
+  constraints?: string[]
+  approach?: string
+  architecture?: string
+  outcome?: string
+  metrics?: CaseStudyMetric[]
+  lessons?: string[]
+}
+
+export type CastPanel = {
+  type: 'cast'
+  /** asciicast v2 recording under `public/`, e.g. `/casts/generate-variant.cast` */
+  src: string
+  /** Short description of the recording for screen readers */
+  alt: string
+  caption: string
+  /** Playback speed the player starts at; defaults to 1 */
+  speed?: number
+}
+
+/** A clickable region of a diagram. Position and size are percentages of the diagram's width and height. */
+export type DiagramHotspot = {
+  id: string
+  label: string
+  x: number
+  y: number
+  width: number
+  height: number
+  /** What this component does in the project; inline HTML */
+  description: string
+  /** Entries of the project's `tags` this component relates to */
+  tags: string[]
+}
+
+export type DiagramPanel = {
+  type: 'diagram'
+  /** Image or `.svg` under `public/` */
+  src: string
+  /** Markup of `src` when it is an SVG, inlined at build time */
+  svg?: string
+  alt: string
+  caption: string
+  hotspots: DiagramHotspot[]
+}
+
+export type RepoLanguage = {
+  name: string
+  /** Bytes of code in this language, as GitHub counts them */
+  bytes: number
+}
+
+/** A project's GitHub repository at the time of the last build that could reach the API; see `content/github.json`. */
+export type RepoStats = {
+  stars: number
+  /** Largest first */
+  languages: RepoLanguage[]
+  /** ISO timestamp of the newest commit on the default branch */
+  lastCommit: string
+  latestRelease?: {
+    tag: string
+    /** ISO timestamp */
+    date: string
+  }
+}
+
+export type CodePanel = {
+  type: 'code'
+  caption: string
+  /** Path of the file the excerpt comes from, shown above it, e.g. `generate-variant.py` */
+  file: string
+  /** highlight.js language name, e.g. `python` */
+  language: string
+  /** One entry per line, syntax highlighted to HTML at build time */
+  lines: string[]
+  /** Line number of the first line, for excerpts from the middle of a file; defaults to 1 */
+  start: number
+  /** Line numbers, as shown, to emphasize */
+  highlight: number[]
+}
+
+export type VideoCaptions = {
+  /** WebVTT file under `public/` */
+  src: string
+  /** Language of the captions, e.g. `en` */
+  lang: string
+  label: string
+}
+
+export type VideoPanel = {
+  type: 'video'
+  caption: string
+  /** MP4 or WebM files under `public/`, best first; the browser plays the first it supports */
+  sources: string[]
+  /** Image under `public/` shown before playback; its size reserves the player's space */
+  poster: string
+  /** Short description of the video for screen readers */
+  alt: string
+  /** The first track is on by default */
+  captions: VideoCaptions[]
+}
+
+export type CarouselSlide = {
+  /** Image under `public/` */
+  src: string
+  alt: string
+  caption?: string
+}
+
+export type CarouselPanel = {
+  type: 'carousel'
+  caption: string
+  slides: CarouselSlide[]
+}
+
+export type MermaidPanel = {
+  type: 'mermaid'
+  caption: string
+  /** What the diagram shows, for screen readers */
+  alt: string
+  /** SVG markup rendered from the entry's Mermaid `source` at build time */
+  svg: string
+}
+
+export type Panel = ImagePanel | TerminalPanel | CastPanel | DiagramPanel | CodePanel | VideoPanel | CarouselPanel | MermaidPanel
+
+/** Whether a project's `live` demo still answers; `down` swaps the demo link for its `archive` */
+export const liveStatuses = ['up', 'down'] as const
+export type LiveStatus = (typeof liveStatuses)[number]
+
+export type Project = {
+  /** URL segment for `/projects/:slug`; the entry's file name */
+  slug: string
+  title: string
+  description: string
+  longDescription: string
+  badge: string
+  github: string
+  live?: string
+  /** `up` unless the entry says otherwise; `npm run check:links` reports demos that stopped answering */
+  liveStatus: LiveStatus
+  /** Screenshot or recording of the demo, shown instead of linking to it while `liveStatus` is `down` */
+  archive?: ImagePanel | CastPanel
+  tags: string[]
+  panel: Panel
+  /** Full write-up for the project page, rendered from the entry's Markdown body */
+  writeup: string
+  caseStudy?: CaseStudy
+  /** Stats of the `github` repository, when the snapshot has them */
+  repo?: RepoStats
+}
+
+export type Experience = {
+  title: string
+  company: string
+  location: string
+  /** As written in `content/`, e.g. `2021 - Present` */
+  period: string
+  /** First year of `period` */
+  startYear: number
+  /** Last year of `period`; absent while the role is current */
+  endYear?: number
+  description: string
+  achievements: string[]
+  technologies: string[]
+}
+
+export type ToolkitGroup = {
+  icon: IconName
+  title: string
+  items: string[]
+  accent: Accent
+}
+
+/** A skill that goes by several names across project tags, role technologies and toolkit items */
+export type Skill = {
+  name: string
+  aliases: string[]
+}
+
+export type AboutCard = {
+  icon: IconName
+  title: string
+  /**
+   * Message key of the card's node label in the About diagram. Content gives
+   * just the id (`automate` for `about.node.automate`).
+   */
+  node: MessageKey
+  description: string
+}
+
+export type ContactTerminalLine = {
+  text: string
+  /** Milliseconds after the panel scrolls into view */
+  delay: number
+}
+
+export type ContactLink = {
+  icon: IconName
+  label: string
+  value: string
+  href: string
+}
+
+export type Post = {
+  /** URL segment for `/writing/:slug`; the entry's file name */
+  slug: string
+  title: string
+  /** Publication date, `YYYY-MM-DD` */
+  date: string
+  tags: string[]
+  /** One or two sentences for the post list and the feeds */
+  summary: string
+  /** The language it is written in; posts aren't translated, so every locale shows this one */
+  lang: Locale
+  /** The post rendered from the entry's Markdown body, with highlighted code and linkable headings */
+  body: string
+}
+
+export type Content = {
+  projects: Project[]
+  /** Newest first */
+  posts: Post[]
+  experiences: Experience[]
+  toolkit: ToolkitGroup[]
+  skills: Skill[]
+  aboutCards: AboutCard[]
+  terminalLines: ContactTerminalLine[]
+  contactLinks: ContactLink[]
+}
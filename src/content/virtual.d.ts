@@ -0,0 +1,17 @@
+declare module 'virtual:content' {
+  type Content = import('./types').Content
+
+  export const projects: Content['projects']
+  export const posts: Content['posts']
+  export const experiences: Content['experiences']
+  export const toolkit: Content['toolkit']
+  export const skills: Content['skills']
+  export const aboutCards: Content['aboutCards']
+  export const terminalLines: Content['terminalLines']
+  export const contactLinks: Content['contactLinks']
+}
+
+declare module 'virtual:images' {
+  /** Keyed by the path under `public/` that content uses, e.g. `/Playdough-AWS-Architecture.png` */
+  export const images: Record<string, import('./types').ImageAsset>
+}
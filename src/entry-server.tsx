@@ -0,0 +1,19 @@
+import { StrictMode } from 'react'
+import { renderToString } from 'react-dom/server'
+import App from './App'
+import { normalizePath } from './router'
+import { pageMeta } from './meta'
+import { splitLocale } from './i18n'
+
+export { staticPaths } from './router'
+
+/** Renders one path to HTML for the prerender step (see plugins/prerender). */
+export function render(path: string) {
+  const html = renderToString(
+    <StrictMode>
+      <App path={path} />
+    </StrictMode>,
+  )
+  const { locale, path: appPath } = splitLocale(normalizePath(path))
+  return { html, meta: pageMeta(appPath, locale) }
+}
@@ -0,0 +1,38 @@
+import { useEffect, useState } from 'react'
+
+/** Top of the band a section must reach to count as active: just below the fixed navigation */
+const HEADER_HEIGHT = 64
+
+/**
+ * The id of the first of `ids` (in page order) that crosses the upper part of
+ * the viewport, or null when none does (e.g. over the hero, or on another
+ * page). Re-reads the elements whenever `key` changes.
+ */
+export function useActiveSection(ids: readonly string[], key: unknown): string | null {
+  const [active, setActive] = useState<string | null>(null)
+
+  useEffect(() => {
+    const elements = ids.map((id) => document.getElementById(id)).filter((el): el is HTMLElement => el !== null)
+    if (elements.length === 0) {
+      setActive(null)
+      return
+    }
+
+    const visible = new Set<string>()
+    const observer = new IntersectionObserver(
+      (entries) => {
+        for (const entry of entries) {
+          if (entry.isIntersecting) visible.add(entry.target.id)
+          else visible.delete(entry.target.id)
+        }
+        setActive(ids.find((id) => visible.has(id)) ?? null)
+      },
+      // A band from under the navigation to 40% down the viewport
+      { rootMargin: `-${HEADER_HEIGHT}px 0px -60% 0px` }
+    )
+    elements.forEach((el) => observer.observe(el))
+    return () => observer.disconnect()
+  }, [ids, key])
+
+  return active
+}
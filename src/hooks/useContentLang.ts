@@ -0,0 +1,12 @@
+import { contentLocale, type Locale } from '../i18n'
+import { useLocale } from '../router'
+
+/**
+ * The `lang` attribute for an element showing text from `content/`: the
+ * content's language on pages in any other locale, so a Spanish page doesn't
+ * claim its English project write-ups are Spanish. Undefined where they match.
+ */
+export function useContentLang(): Locale | undefined {
+  const locale = useLocale()
+  return locale === contentLocale ? undefined : contentLocale
+}
@@ -0,0 +1,51 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+
+// localStorage can throw (private browsing, storage full); a lost draft is not worth an error
+function read<T>(key: string): T | null {
+  try {
+    const stored = localStorage.getItem(key)
+    return stored === null ? null : (JSON.parse(stored) as T)
+  } catch {
+    return null
+  }
+}
+
+function write(key: string, value: unknown) {
+  try {
+    if (value === null) localStorage.removeItem(key)
+    else localStorage.setItem(key, JSON.stringify(value))
+  } catch {
+    // ignore
+  }
+}
+
+/**
+ * State mirrored to localStorage under `key`, so it survives reloads and
+ * failed submissions. The stored value is restored after mount to keep the
+ * first render identical to the prerendered HTML. `clear` resets to `initial`
+ * and forgets the stored copy.
+ */
+export function useDraft<T extends object>(key: string, initial: T): [T, (value: T) => void, () => void] {
+  const empty = useRef(initial)
+  const [value, setValue] = useState(initial)
+
+  useEffect(() => {
+    const stored = read<T>(key)
+    if (stored) setValue({ ...empty.current, ...stored })
+  }, [key])
+
+  const update = useCallback(
+    (next: T) => {
+      setValue(next)
+      write(key, next)
+    },
+    [key]
+  )
+
+  const clear = useCallback(() => {
+    setValue(empty.current)
+    write(key, null)
+  }, [key])
+
+  return [value, update, clear]
+}
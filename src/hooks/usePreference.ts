@@ -0,0 +1,12 @@
+import { useSyncExternalStore } from 'react'
+import type { Preference } from '../lib/preferences'
+
+/**
+ * A display preference (see src/lib/preferences.ts) and its setter.
+ * Prerendered markup is built with `serverValue`; hydration then switches to
+ * the value index.html applied.
+ */
+export function usePreference<T extends string>(preference: Preference<T>, serverValue: T): [T, (value: T) => void] {
+  const value = useSyncExternalStore(preference.subscribe, preference.get, () => serverValue)
+  return [value, preference.set]
+}
@@ -0,0 +1,12 @@
+import { motion } from '../lib/preferences'
+import { usePreference } from './usePreference'
+
+/**
+ * True when motion should be kept to a minimum: the visitor turned it off in
+ * the navigation, or hasn't chosen and their OS asks for reduced motion.
+ * Always false during prerender, so only use it to gate effects, not to
+ * change initial markup.
+ */
+export function useReducedMotion(): boolean {
+  return usePreference(motion, 'full')[0] === 'reduce'
+}
@@ -0,0 +1,48 @@
+import { gsap, REVEAL_START, ScrollTrigger } from '../lib/motion'
+import { useScrollScene } from './useScrollScene'
+
+export type RevealOptions = {
+  /**
+   * Brings the element's children in one after another instead of the element
+   * as a whole. Children that reach the viewport together are staggered, so a
+   * grid fills in card by card and a long column reveals each card as it
+   * arrives, however many there are.
+   */
+  stagger?: boolean
+}
+
+/** Seconds between staggered children */
+const STAGGER = 0.1
+
+/**
+ * Fades the element up the first time it scrolls into view. The element needs
+ * the `reveal` class, which keeps it hidden until then (except under reduced
+ * motion); `<Reveal>` adds it.
+ */
+export function useReveal<T extends HTMLElement>({ stagger = false }: RevealOptions = {}) {
+  return useScrollScene<T>(
+    (element) => {
+      // Once revealed, `.reveal` stops hiding the element; tweens clear their inline styles when done
+      const reveal = () => element.classList.add('revealed')
+
+      if (!stagger) {
+        gsap
+          .timeline({ scrollTrigger: { trigger: element, start: REVEAL_START, once: true } })
+          .fromTo(element, { opacity: 0, y: 20 }, { opacity: 1, y: 0, duration: 0.6, ease: 'power2.out', clearProps: 'opacity,transform', onStart: reveal })
+        return
+      }
+
+      // Cards often transition these on hover; a CSS transition would lag behind every frame of the tween
+      const children = Array.from(element.children)
+      gsap.set(children, { opacity: 0, y: 15, transition: 'none' })
+      reveal()
+      ScrollTrigger.batch(children, {
+        start: REVEAL_START,
+        once: true,
+        onEnter: (batch) =>
+          gsap.to(batch, { opacity: 1, y: 0, duration: 0.4, ease: 'power2.out', stagger: STAGGER, clearProps: 'opacity,transform,transition' }),
+      })
+    },
+    [stagger],
+  )
+}
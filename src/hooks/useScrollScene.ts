@@ -0,0 +1,24 @@
+import { useEffect, useRef, type DependencyList, type RefObject } from 'react'
+import { gsap } from '../lib/motion'
+import { useReducedMotion } from './useReducedMotion'
+
+/**
+ * Runs `scene` once the element has rendered, to set up its GSAP tweens and
+ * ScrollTriggers. Selector strings in `scene` match inside the element, and
+ * everything it creates is reverted on unmount, when `deps` change and when
+ * reduced motion is turned on. Under reduced motion `scene` doesn't run, so
+ * the element keeps its plain CSS state.
+ */
+export function useScrollScene<T extends Element>(scene: (element: T) => void, deps: DependencyList = []): RefObject<T> {
+  const ref = useRef<T>(null)
+  const reducedMotion = useReducedMotion()
+
+  useEffect(() => {
+    const element = ref.current
+    if (!element || reducedMotion) return
+    const context = gsap.context(() => scene(element), element)
+    return () => context.revert()
+  }, [reducedMotion, ...deps])
+
+  return ref
+}
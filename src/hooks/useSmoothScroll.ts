@@ -0,0 +1,9 @@
+import { useEffect } from 'react'
+import { startSmoothScroll } from '../lib/motion'
+import { useReducedMotion } from './useReducedMotion'
+
+/** Smooth scrolling for the whole page, off under reduced motion. */
+export function useSmoothScroll() {
+  const reducedMotion = useReducedMotion()
+  useEffect(() => (reducedMotion ? undefined : startSmoothScroll()), [reducedMotion])
+}
@@ -0,0 +1,8 @@
+import { translate, type Translate } from '../i18n'
+import { useLocale } from '../router'
+
+/** Message lookup in the current URL's locale; see src/i18n. */
+export function useT(): Translate {
+  const locale = useLocale()
+  return (key, values) => translate(locale, key, values)
+}
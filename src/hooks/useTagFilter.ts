@@ -0,0 +1,23 @@
+import { skillRegistry } from '../content'
+import { useSearchParam } from '../router'
+
+export type TagFilter = {
+  /** The active tag, as written in the chip that set it */
+  tag: string | null
+  /** Whether `tags` contains the active tag under any of its names; false when there is none */
+  matches: (tags: readonly string[]) => boolean
+  /** Sets `tag`, or clears the filter if it is already active */
+  toggle: (tag: string) => void
+  clear: () => void
+}
+
+/** The tag filter shared by the Projects, Experience and Toolkit sections, kept in `?tag=`. */
+export function useTagFilter(): TagFilter {
+  const [tag, setTag] = useSearchParam('tag')
+  return {
+    tag,
+    matches: (tags) => tag !== null && skillRegistry.has(tags, tag),
+    toggle: (next) => setTag(tag !== null && skillRegistry.same(tag, next) ? null : next),
+    clear: () => setTag(null),
+  }
+}
@@ -0,0 +1,10 @@
+import { theme, type Theme } from '../lib/preferences'
+import { usePreference } from './usePreference'
+
+/**
+ * The current theme and a setter. Prerendered markup is always built for the
+ * light theme; hydration then switches to the one index.html applied.
+ */
+export function useTheme(): [Theme, (theme: Theme) => void] {
+  return usePreference(theme, 'light')
+}
@@ -0,0 +1,277 @@
+/**
+ * English copy, keyed by where it appears. This catalog defines the message
+ * keys; other locales translate any subset of them.
+ */
+export const en = {
+  'meta.home.title': 'Coleen Stanley Portfolio',
+  'meta.home.description':
+    'Coleen Stanley — Technical Learning Systems Architect. Curriculum engineered like software: content-as-code pipelines, AWS automation and learning systems built to scale.',
+  'meta.notFound.title': 'Page Not Found',
+  'meta.notFound.description': 'The page you were looking for does not exist.',
+
+  'nav.about': 'About',
+  'nav.experience': 'Experience',
+  'nav.toolkit': 'Toolkit',
+  'nav.projects': 'Projects',
+  'nav.writing': 'Writing',
+  'nav.contact': 'Contact',
+  'nav.search': 'Search the site',
+  'nav.language': 'Language',
+  'nav.themeDark': 'Switch to dark theme',
+  'nav.themeLight': 'Switch to light theme',
+  'nav.skip': 'Skip to content',
+  'nav.openMenu': 'Open menu',
+  'nav.closeMenu': 'Close menu',
+  'nav.reduceMotion': 'Reduce motion',
+  'nav.customCursor': 'Custom cursor',
+
+  'loading.status': 'INITIALIZING SYSTEM',
+  'loading.skip': 'PRESS ANY KEY TO SKIP',
+
+  'hero.title': 'TECHNICAL LEARNING SYSTEMS ARCHITECT',
+  'hero.certifications': 'AWS Cloud Certified | Cisco AI Certified | Splunk Observability Certified',
+  'hero.tagline': 'Bridging the gap between Engineering and Education',
+  'hero.cta': 'EXPLORE SYSTEM',
+  'hero.location': 'ATLANTA, GA',
+  'hero.degree': 'B.S. Computer Science',
+  'hero.masters': 'M.Ed. Instructional Design',
+  'hero.scroll': '[SCROLL TO EXPLORE]',
+
+  'about.figure': 'FIG 1.1: SYSTEM ARCHITECTURE',
+  'about.node.architect': 'ARCHITECT',
+  'about.node.automate': 'AUTOMATE',
+  'about.node.educate': 'EDUCATE',
+  'about.eyebrow': 'ABOUT ME',
+  'about.title': 'Knowledge Systems.',
+  'about.titleAccent': 'Built to Scale.',
+  'about.body':
+    "I've spent my career at the crossroads of two disciplines most people treat as separate — software engineering and instructional design. At Cisco, I build the learning systems that help engineers master observability, infrastructure, and AI-integrated tooling. The best technical training doesn't just explain a product. It changes how engineers think.",
+  'about.github': 'VIEW GITHUB PROFILE',
+
+  'experience.eyebrow': 'EXPERIENCE',
+  'experience.title': 'Career',
+  'experience.titleAccent': 'Timeline',
+  'experience.intro': 'Engineering the systems. Teaching the people. Scaling both.',
+
+  'toolkit.eyebrow': 'THE TOOLKIT',
+  'toolkit.title': 'Technical',
+  'toolkit.titleAccent': 'Expertise',
+  'toolkit.intro':
+    "I don't just use tools — I architect the right toolkit for the challenge. From Python automation and AWS Boto3 to enterprise LCMS platforms, every choice is deliberate, modular, and built to scale.",
+  'toolkit.footnote': 'Curriculum engineered like software. Designed to scale.',
+
+  'skills.show': 'SHOW WHERE EACH SKILL IS USED',
+  'skills.hide': 'HIDE SKILL EVIDENCE',
+  'skills.caption': 'Each toolkit skill, with the projects and roles that demonstrate it',
+  'skills.unsupportedCount': '{count} of {total} skills have no supporting project or role yet',
+  'skills.skill': 'Skill',
+  'skills.projects': 'Projects',
+  'skills.roles': 'Roles',
+  'skills.years': 'Years',
+  'skills.years.one': '1 year',
+  'skills.years.other': '{count} years',
+  'skills.years.underOne': 'Under a year',
+  'skills.unsupported': 'No project or role yet',
+
+  'projects.eyebrow': 'PROJECTS',
+  'projects.title': 'Featured',
+  'projects.titleAccent': 'Work',
+  'projects.intro':
+    "When I'm not architecting learning systems at work, I'm building the real thing. These projects are how I stay sharp.",
+  'projects.github': 'View on GitHub',
+  'projects.demo': 'View demo',
+  'projects.archive.image': 'Demo offline: view a screenshot',
+  'projects.archive.cast': 'Demo offline: watch a recording',
+  'projects.readMore': 'READ CASE STUDY',
+  'projects.viewAll': 'VIEW ALL PROJECTS',
+  'projects.updated': 'UPDATED {date}',
+  'projects.stars.one': '1 star',
+  'projects.stars.other': '{count} stars',
+  'projects.languages': 'Languages',
+
+  'filter.region': 'Tag filter',
+  'filter.label': 'FILTER',
+  'filter.by': 'Show everything that uses {tag}',
+  'filter.projects': 'Projects',
+  'filter.roles': 'Roles',
+  'filter.toolkit': 'Toolkit',
+  'filter.none': 'Nothing else lists this tag',
+  'filter.clear': 'Clear filter',
+
+  'writing.eyebrow': 'WRITING',
+  'writing.title': 'Field',
+  'writing.titleAccent': 'Notes',
+  'writing.intro': 'Longer notes on content as code, assessment design and the pipelines behind curriculum.',
+  'writing.read': 'READ',
+  'writing.feeds': 'Subscribe:',
+
+  'post.back': 'ALL WRITING',
+  'post.published': 'Published {date}',
+
+  'project.back': 'ALL PROJECTS',
+  'project.github': 'VIEW ON GITHUB',
+  'project.demo': 'VIEW DEMO',
+  'project.archive.image': 'DEMO OFFLINE · SCREENSHOT',
+  'project.archive.cast': 'DEMO OFFLINE · RECORDING',
+
+  'caseStudy.contents': 'CONTENTS',
+  'caseStudy.contentsLabel': 'Case study contents',
+  'caseStudy.overview': 'Overview',
+  'caseStudy.problem': 'Problem',
+  'caseStudy.constraints': 'Constraints',
+  'caseStudy.approach': 'Approach',
+  'caseStudy.architecture': 'Architecture',
+  'caseStudy.outcome': 'Outcome',
+  'caseStudy.metrics': 'Metrics',
+  'caseStudy.lessons': 'Lessons Learned',
+
+  'player.recording': 'Terminal recording: {alt}',
+  'player.play': 'Play',
+  'player.pause': 'Pause',
+  'player.seek': 'Seek',
+  'player.speed': 'Playback speed',
+  'player.loading': '> loading recording...',
+  'player.failed': '> failed to load recording ({error})',
+  'terminal.skip': 'SKIP',
+  'terminal.replay': 'REPLAY',
+
+  'diagram.select': 'SELECT A COMPONENT',
+  'diagram.clear': 'Clear selection',
+  'diagram.expand': 'Open diagram full screen',
+
+  'carousel.role': 'carousel',
+  'carousel.slide': 'slide',
+  'carousel.position': '{index} of {count}',
+  'carousel.show': 'Show slide {index}',
+  'carousel.previous': 'Previous slide',
+  'carousel.next': 'Next slide',
+
+  'image.enlarge': 'Enlarge image: {alt}',
+  'lightbox.zoomIn': 'Zoom in',
+  'lightbox.zoomOut': 'Zoom out',
+  'lightbox.reset': 'Reset zoom',
+  'lightbox.close': 'Close',
+
+  'contact.eyebrow': 'CONTACT',
+  'contact.title': 'Send a',
+  'contact.titleAccent': 'Signal',
+  'contact.intro': "Ready to build systems that multiply impact? Let's connect.",
+  'contact.copy': 'Copy {label}',
+  'contact.formTitle': 'TRANSMIT MESSAGE',
+
+  'form.name': 'NAME',
+  'form.namePlaceholder': 'Your name',
+  'form.email': 'EMAIL',
+  'form.emailPlaceholder': 'your@email.com',
+  'form.message': 'MESSAGE',
+  'form.messagePlaceholder': 'What are you building, and how can I help?',
+  'form.honeypot': 'Leave this field empty',
+  'form.tooFast': 'That was quick! Give it a few seconds and send again.',
+  'form.unknownError': 'Something went wrong while sending.',
+  'form.notSent': 'MESSAGE NOT SENT',
+  'form.draftSaved': 'Your message is saved in this browser.',
+  'form.retry': 'RETRY',
+  'form.submit': 'TRANSMIT',
+  'form.sending': 'TRANSMITTING...',
+  'form.sent': 'MESSAGE SENT',
+  'form.statusSending': 'Sending message',
+  'form.statusSent': 'Message sent',
+  'form.error.nameRequired': 'Please enter your name.',
+  'form.error.nameTooLong': 'Name must be {max} characters or fewer.',
+  'form.error.emailRequired': 'Please enter your email so I can reply.',
+  'form.error.emailInvalid': "That doesn't look like an email address.",
+  'form.error.messageTooShort': 'Message must be at least {min} characters.',
+  'form.error.messageTooLong': 'Message must be {max} characters or fewer.',
+  'form.error.unreachable': "Couldn't reach the mail service. Check your connection and try again.",
+  'form.error.rejected': 'The mail service rejected the message: {reason}',
+  'form.error.http': 'The mail service returned an error (HTTP {status}).',
+  'form.error.mock': 'Mock transport failure (VITE_CONTACT_TRANSPORT=mock-fail).',
+
+  'shell.output': 'Terminal output',
+  'shell.input': 'Terminal command',
+  'shell.welcome': 'Type "help" and press Enter.',
+  'shell.notFound': 'command not found: {name}. Type "help" for a list of commands.',
+  'shell.usage': 'usage: {usage}',
+  'shell.help.usage': 'help',
+  'shell.help.summary': 'list commands',
+  'shell.help.hint': 'Tab completes, ↑/↓ walk through history.',
+  'shell.whoami.usage': 'whoami',
+  'shell.whoami.summary': 'who runs this site',
+  'shell.ls.usage': 'ls [projects]',
+  'shell.ls.summary': 'list what is here',
+  'shell.ls.hint': 'experience and skills are commands; help lists them all',
+  'shell.ls.missing': 'ls: {dir}: No such directory',
+  'shell.cat.usage': 'cat projects/<slug>',
+  'shell.cat.summary': 'show a project',
+  'shell.cat.missing': 'cat: {file}: No such file',
+  'shell.cat.offline': 'offline',
+  'shell.cat.more': 'open {slug} for the full write-up',
+  'shell.experience.usage': 'experience',
+  'shell.experience.summary': 'work history',
+  'shell.skills.usage': 'skills [--filter <term>]',
+  'shell.skills.filterUsage': 'skills --filter <term>',
+  'shell.skills.summary': 'toolkit, optionally filtered',
+  'shell.skills.none': 'skills: nothing matches "{term}"',
+  'shell.open.usage': 'open <link|project>',
+  'shell.open.summary': 'open a profile or project page',
+  'shell.open.opening': 'opening {name}',
+  'shell.open.missing': 'open: {target}: not found. Try one of: {targets}',
+  'shell.theme.usage': 'theme [light|dark]',
+  'shell.theme.summary': 'switch color theme',
+  'shell.theme.unknown': 'theme: unknown theme "{name}"',
+  'shell.mail.usage': 'mail',
+  'shell.mail.summary': 'send me a message',
+  'shell.mail.start': 'Compose a message. Ctrl+C cancels.',
+  'shell.mail.name': 'name:',
+  'shell.mail.email': 'email:',
+  'shell.mail.message': 'message:',
+  'shell.mail.confirm': 'send? [y/n]',
+  'shell.mail.label': 'Message {field}',
+  'shell.mail.sent': "Message sent. Thanks, I'll reply by email.",
+  'shell.mail.notSent': 'Not sent: {reason}',
+  'shell.mail.retry': 'Answer y to try again.',
+  'shell.mail.discarded': 'Message discarded.',
+  'shell.mail.yesOrNo': 'Please answer y or n.',
+  'shell.mail.cancelled': 'mail cancelled.',
+  'shell.clear.usage': 'clear',
+  'shell.clear.summary': 'clear the screen',
+
+  'search.dialog': 'Search the site',
+  'search.input': 'Search projects, skills, experience and links',
+  'search.placeholder': 'Search projects, skills, experience...',
+  'search.results': 'Results',
+  'search.opensInNewTab': 'opens in a new tab',
+  'search.noMatches': 'No matches for "{query}"',
+  'search.hintNavigate': '↑↓ navigate',
+  'search.hintOpen': '↵ open',
+  'search.hintClose': 'esc close',
+  'search.count.one': '{count} result',
+  'search.count.other': '{count} results',
+  'search.kind.section': 'Section',
+  'search.kind.project': 'Project',
+  'search.kind.post': 'Post',
+  'search.kind.tag': 'Tag',
+  'search.kind.role': 'Role',
+  'search.kind.achievement': 'Achievement',
+  'search.kind.skill': 'Skill',
+  'search.kind.link': 'Link',
+
+  'notFound.eyebrow': 'ERROR 404',
+  'notFound.title': 'Signal',
+  'notFound.titleAccent': 'Lost',
+  'notFound.body': "There's nothing at this address. It may have moved, or the link may be mistyped.",
+  'notFound.back': 'BACK TO HOME',
+
+  'footer.builtWith': 'DESIGNED & BUILT WITH',
+  'footer.builtWithEnd': '& CHAI',
+  'footer.rights': '© {year} ALL RIGHTS RESERVED',
+  'footer.analytics': 'ANONYMOUS ANALYTICS',
+  'footer.analyticsOn': 'ON',
+  'footer.analyticsOff': 'OFF',
+  'footer.analyticsBlocked': 'Off because your browser asks sites not to track you',
+}
+
+export type MessageKey = keyof typeof en
+
+/** A translation; keys it leaves out fall back to English. */
+export type Catalog = Partial<Record<MessageKey, string>>
@@ -0,0 +1,262 @@
+import type { Catalog } from './en'
+
+/**
+ * Spanish. Certification and degree names are left out on purpose: they are
+ * credentials, so they keep their official English names.
+ */
+export const es: Catalog = {
+  'meta.home.title': 'Portafolio de Coleen Stanley',
+  'meta.home.description':
+    'Coleen Stanley — Arquitecta de Sistemas de Aprendizaje Técnico. Currículos diseñados como software: pipelines de contenido como código, automatización en AWS y sistemas de aprendizaje hechos para escalar.',
+  'meta.notFound.title': 'Página no encontrada',
+  'meta.notFound.description': 'La página que buscas no existe.',
+
+  'nav.about': 'Sobre mí',
+  'nav.experience': 'Experiencia',
+  'nav.toolkit': 'Herramientas',
+  'nav.projects': 'Proyectos',
+  'nav.writing': 'Escritos',
+  'nav.contact': 'Contacto',
+  'nav.search': 'Buscar en el sitio',
+  'nav.language': 'Idioma',
+  'nav.themeDark': 'Cambiar al tema oscuro',
+  'nav.themeLight': 'Cambiar al tema claro',
+  'nav.skip': 'Ir al contenido',
+  'nav.openMenu': 'Abrir menú',
+  'nav.closeMenu': 'Cerrar menú',
+  'nav.reduceMotion': 'Reducir movimiento',
+  'nav.customCursor': 'Cursor personalizado',
+
+  'loading.status': 'INICIANDO SISTEMA',
+  'loading.skip': 'PULSA CUALQUIER TECLA PARA SALTAR',
+
+  'hero.title': 'ARQUITECTA DE SISTEMAS DE APRENDIZAJE TÉCNICO',
+  'hero.tagline': 'Uniendo la ingeniería y la educación',
+  'hero.cta': 'EXPLORAR EL SISTEMA',
+  'hero.scroll': '[DESPLÁZATE PARA EXPLORAR]',
+
+  'about.figure': 'FIG 1.1: ARQUITECTURA DEL SISTEMA',
+  'about.node.architect': 'DISEÑAR',
+  'about.node.automate': 'AUTOMATIZAR',
+  'about.node.educate': 'EDUCAR',
+  'about.eyebrow': 'SOBRE MÍ',
+  'about.title': 'Sistemas de conocimiento.',
+  'about.titleAccent': 'Hechos para escalar.',
+  'about.body':
+    'He pasado mi carrera en el cruce de dos disciplinas que la mayoría trata por separado: la ingeniería de software y el diseño instruccional. En Cisco construyo los sistemas de aprendizaje que ayudan a los ingenieros a dominar la observabilidad, la infraestructura y las herramientas con IA integrada. La mejor formación técnica no se limita a explicar un producto. Cambia la forma en que piensan los ingenieros.',
+  'about.github': 'VER PERFIL DE GITHUB',
+
+  'experience.eyebrow': 'EXPERIENCIA',
+  'experience.title': 'Trayectoria',
+  'experience.titleAccent': 'profesional',
+  'experience.intro': 'Diseñar los sistemas. Enseñar a las personas. Escalar ambos.',
+
+  'toolkit.eyebrow': 'HERRAMIENTAS',
+  'toolkit.title': 'Dominio',
+  'toolkit.titleAccent': 'técnico',
+  'toolkit.intro':
+    'No solo uso herramientas: diseño el conjunto adecuado para cada reto. Desde la automatización con Python y AWS Boto3 hasta plataformas LCMS empresariales, cada elección es deliberada, modular y hecha para escalar.',
+  'toolkit.footnote': 'Currículos diseñados como software. Hechos para escalar.',
+
+  'skills.show': 'VER DÓNDE SE USA CADA HABILIDAD',
+  'skills.hide': 'OCULTAR LA EVIDENCIA',
+  'skills.caption': 'Cada habilidad, con los proyectos y puestos que la demuestran',
+  'skills.unsupportedCount': '{count} de {total} habilidades aún no tienen un proyecto o puesto que las respalde',
+  'skills.skill': 'Habilidad',
+  'skills.projects': 'Proyectos',
+  'skills.roles': 'Puestos',
+  'skills.years': 'Años',
+  'skills.years.one': '1 año',
+  'skills.years.other': '{count} años',
+  'skills.years.underOne': 'Menos de un año',
+  'skills.unsupported': 'Aún sin proyecto ni puesto',
+
+  'projects.eyebrow': 'PROYECTOS',
+  'projects.title': 'Trabajo',
+  'projects.titleAccent': 'destacado',
+  'projects.intro':
+    'Cuando no estoy diseñando sistemas de aprendizaje en el trabajo, construyo proyectos propios. Así es como me mantengo al día.',
+  'projects.github': 'Ver en GitHub',
+  'projects.demo': 'Ver demo',
+  'projects.archive.image': 'Demo fuera de línea: ver una captura',
+  'projects.archive.cast': 'Demo fuera de línea: ver una grabación',
+  'projects.readMore': 'LEER CASO DE ESTUDIO',
+  'projects.viewAll': 'VER TODOS LOS PROYECTOS',
+  'projects.updated': 'ACTUALIZADO EL {date}',
+  'projects.stars.one': '1 estrella',
+  'projects.stars.other': '{count} estrellas',
+  'projects.languages': 'Lenguajes',
+
+  'filter.region': 'Filtro por etiqueta',
+  'filter.label': 'FILTRO',
+  'filter.by': 'Mostrar todo lo que usa {tag}',
+  'filter.projects': 'Proyectos',
+  'filter.roles': 'Puestos',
+  'filter.toolkit': 'Herramientas',
+  'filter.none': 'Nada más incluye esta etiqueta',
+  'filter.clear': 'Quitar filtro',
+
+  'writing.eyebrow': 'ESCRITOS',
+  'writing.title': 'Notas de',
+  'writing.titleAccent': 'campo',
+  'writing.intro': 'Notas extensas sobre contenido como código, diseño de evaluaciones y los pipelines detrás de un currículo.',
+  'writing.read': 'LEER',
+  'writing.feeds': 'Suscríbete:',
+
+  'post.back': 'TODOS LOS ESCRITOS',
+  'post.published': 'Publicado el {date}',
+
+  'project.back': 'TODOS LOS PROYECTOS',
+  'project.github': 'VER EN GITHUB',
+  'project.demo': 'VER DEMO',
+  'project.archive.image': 'DEMO FUERA DE LÍNEA · CAPTURA',
+  'project.archive.cast': 'DEMO FUERA DE LÍNEA · GRABACIÓN',
+
+  'caseStudy.contents': 'CONTENIDO',
+  'caseStudy.contentsLabel': 'Contenido del caso de estudio',
+  'caseStudy.overview': 'Resumen',
+  'caseStudy.problem': 'Problema',
+  'caseStudy.constraints': 'Restricciones',
+  'caseStudy.approach': 'Enfoque',
+  'caseStudy.architecture': 'Arquitectura',
+  'caseStudy.outcome': 'Resultado',
+  'caseStudy.metrics': 'Métricas',
+  'caseStudy.lessons': 'Lecciones aprendidas',
+
+  'player.recording': 'Grabación de terminal: {alt}',
+  'player.play': 'Reproducir',
+  'player.pause': 'Pausar',
+  'player.seek': 'Posición',
+  'player.speed': 'Velocidad de reproducción',
+  'player.loading': '> cargando grabación...',
+  'player.failed': '> no se pudo cargar la grabación ({error})',
+  'terminal.skip': 'SALTAR',
+  'terminal.replay': 'REPETIR',
+
+  'diagram.select': 'SELECCIONA UN COMPONENTE',
+  'diagram.clear': 'Quitar selección',
+  'diagram.expand': 'Abrir el diagrama a pantalla completa',
+
+  'carousel.role': 'carrusel',
+  'carousel.slide': 'diapositiva',
+  'carousel.position': '{index} de {count}',
+  'carousel.show': 'Mostrar diapositiva {index}',
+  'carousel.previous': 'Diapositiva anterior',
+  'carousel.next': 'Diapositiva siguiente',
+
+  'image.enlarge': 'Ampliar imagen: {alt}',
+  'lightbox.zoomIn': 'Acercar',
+  'lightbox.zoomOut': 'Alejar',
+  'lightbox.reset': 'Restablecer zoom',
+  'lightbox.close': 'Cerrar',
+
+  'contact.eyebrow': 'CONTACTO',
+  'contact.title': 'Envía una',
+  'contact.titleAccent': 'señal',
+  'contact.intro': '¿Listo para construir sistemas que multipliquen el impacto? Hablemos.',
+  'contact.copy': 'Copiar {label}',
+  'contact.formTitle': 'TRANSMITIR MENSAJE',
+
+  'form.name': 'NOMBRE',
+  'form.namePlaceholder': 'Tu nombre',
+  'form.email': 'CORREO',
+  'form.emailPlaceholder': 'tu@correo.com',
+  'form.message': 'MENSAJE',
+  'form.messagePlaceholder': '¿Qué estás construyendo y cómo puedo ayudarte?',
+  'form.honeypot': 'Deja este campo vacío',
+  'form.tooFast': '¡Qué rapidez! Espera unos segundos y vuelve a enviarlo.',
+  'form.unknownError': 'Algo salió mal al enviar.',
+  'form.notSent': 'MENSAJE NO ENVIADO',
+  'form.draftSaved': 'Tu mensaje está guardado en este navegador.',
+  'form.retry': 'REINTENTAR',
+  'form.submit': 'TRANSMITIR',
+  'form.sending': 'TRANSMITIENDO...',
+  'form.sent': 'MENSAJE ENVIADO',
+  'form.statusSending': 'Enviando mensaje',
+  'form.statusSent': 'Mensaje enviado',
+  'form.error.nameRequired': 'Escribe tu nombre.',
+  'form.error.nameTooLong': 'El nombre debe tener {max} caracteres o menos.',
+  'form.error.emailRequired': 'Escribe tu correo para que pueda responderte.',
+  'form.error.emailInvalid': 'Eso no parece una dirección de correo.',
+  'form.error.messageTooShort': 'El mensaje debe tener al menos {min} caracteres.',
+  'form.error.messageTooLong': 'El mensaje debe tener {max} caracteres o menos.',
+  'form.error.unreachable': 'No se pudo contactar con el servicio de correo. Revisa tu conexión e inténtalo de nuevo.',
+  'form.error.rejected': 'El servicio de correo rechazó el mensaje: {reason}',
+  'form.error.http': 'El servicio de correo devolvió un error (HTTP {status}).',
+
+  'shell.output': 'Salida de la terminal',
+  'shell.input': 'Comando de la terminal',
+  'shell.welcome': 'Escribe "help" y pulsa Intro.',
+  'shell.notFound': 'comando no encontrado: {name}. Escribe "help" para ver la lista de comandos.',
+  'shell.usage': 'uso: {usage}',
+  'shell.help.summary': 'lista los comandos',
+  'shell.help.hint': 'Tab completa, ↑/↓ recorren el historial.',
+  'shell.whoami.summary': 'quién lleva este sitio',
+  'shell.ls.summary': 'lista lo que hay aquí',
+  'shell.ls.hint': 'experience y skills son comandos; help los lista todos',
+  'shell.ls.missing': 'ls: {dir}: no existe el directorio',
+  'shell.cat.usage': 'cat projects/<id>',
+  'shell.cat.summary': 'muestra un proyecto',
+  'shell.cat.missing': 'cat: {file}: no existe el archivo',
+  'shell.cat.offline': 'fuera de línea',
+  'shell.cat.more': 'open {slug} para ver el artículo completo',
+  'shell.experience.summary': 'trayectoria profesional',
+  'shell.skills.usage': 'skills [--filter <término>]',
+  'shell.skills.filterUsage': 'skills --filter <término>',
+  'shell.skills.summary': 'herramientas, con filtro opcional',
+  'shell.skills.none': 'skills: nada coincide con "{term}"',
+  'shell.open.usage': 'open <enlace|proyecto>',
+  'shell.open.summary': 'abre un perfil o la página de un proyecto',
+  'shell.open.opening': 'abriendo {name}',
+  'shell.open.missing': 'open: {target}: no encontrado. Prueba con: {targets}',
+  'shell.theme.summary': 'cambia el tema de color',
+  'shell.theme.unknown': 'theme: tema desconocido "{name}"',
+  'shell.mail.summary': 'envíame un mensaje',
+  'shell.mail.start': 'Redacta un mensaje. Ctrl+C cancela.',
+  'shell.mail.name': 'nombre:',
+  'shell.mail.email': 'correo:',
+  'shell.mail.message': 'mensaje:',
+  'shell.mail.confirm': '¿enviar? [y/n]',
+  'shell.mail.label': 'Mensaje, {field}',
+  'shell.mail.sent': 'Mensaje enviado. Gracias, te responderé por correo.',
+  'shell.mail.notSent': 'No enviado: {reason}',
+  'shell.mail.retry': 'Responde y para volver a intentarlo.',
+  'shell.mail.discarded': 'Mensaje descartado.',
+  'shell.mail.yesOrNo': 'Responde y o n.',
+  'shell.mail.cancelled': 'mail cancelado.',
+  'shell.clear.summary': 'limpia la pantalla',
+
+  'search.dialog': 'Buscar en el sitio',
+  'search.input': 'Buscar proyectos, habilidades, experiencia y enlaces',
+  'search.placeholder': 'Buscar proyectos, habilidades, experiencia...',
+  'search.results': 'Resultados',
+  'search.opensInNewTab': 'se abre en una pestaña nueva',
+  'search.noMatches': 'Sin resultados para "{query}"',
+  'search.hintNavigate': '↑↓ navegar',
+  'search.hintOpen': '↵ abrir',
+  'search.hintClose': 'esc cerrar',
+  'search.count.one': '{count} resultado',
+  'search.count.other': '{count} resultados',
+  'search.kind.section': 'Sección',
+  'search.kind.project': 'Proyecto',
+  'search.kind.post': 'Artículo',
+  'search.kind.tag': 'Etiqueta',
+  'search.kind.role': 'Puesto',
+  'search.kind.achievement': 'Logro',
+  'search.kind.skill': 'Habilidad',
+  'search.kind.link': 'Enlace',
+
+  'notFound.eyebrow': 'ERROR 404',
+  'notFound.title': 'Señal',
+  'notFound.titleAccent': 'perdida',
+  'notFound.body': 'No hay nada en esta dirección. Puede que se haya movido o que el enlace esté mal escrito.',
+  'notFound.back': 'VOLVER AL INICIO',
+
+  'footer.builtWith': 'DISEÑADO Y CONSTRUIDO CON',
+  'footer.builtWithEnd': 'Y CHAI',
+  'footer.rights': '© {year} TODOS LOS DERECHOS RESERVADOS',
+  'footer.analytics': 'ANALÍTICA ANÓNIMA',
+  'footer.analyticsOn': 'SÍ',
+  'footer.analyticsOff': 'NO',
+  'footer.analyticsBlocked': 'Desactivada porque tu navegador pide a los sitios que no te rastreen',
+}
@@ -0,0 +1,68 @@
+import { en, type Catalog, type MessageKey } from './en'
+import { es } from './es'
+
+export type { MessageKey } from './en'
+
+export const locales = ['en', 'es'] as const
+export type Locale = (typeof locales)[number]
+
+/** Served without a path prefix; every other locale lives under `/<locale>/`. */
+export const defaultLocale: Locale = 'en'
+
+/** The language of everything under `content/`, which isn't translated. */
+export const contentLocale: Locale = 'en'
+
+/** Each locale's name in its own language, for the switcher. */
+export const localeNames: Record<Locale, string> = {
+  en: 'English',
+  es: 'Español',
+}
+
+const catalogs: Record<Locale, Catalog> = { en, es }
+
+export type MessageValues = Record<string, string | number>
+
+/** A message lookup bound to one locale, as returned by `useT()`. */
+export type Translate = (key: MessageKey, values?: MessageValues) => string
+
+/**
+ * The message for `key` in `locale`, or the English one when that locale
+ * hasn't translated it. `{name}` placeholders are filled from `values`.
+ */
+export function translate(locale: Locale, key: MessageKey, values?: MessageValues): string {
+  const message = catalogs[locale][key] ?? en[key]
+  if (!values) return message
+  return message.replace(/\{(\w+)\}/g, (placeholder, name: string) => (name in values ? String(values[name]) : placeholder))
+}
+
+/** A `YYYY-MM-DD` date written out for `locale`, e.g. "October 19, 2026". */
+export function formatDate(date: string, locale: Locale): string {
+  // UTC on both sides so the prerendered date matches the hydrated one
+  return new Date(date).toLocaleDateString(locale, { year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC' })
+}
+
+const isLocale = (value: string): value is Locale => (locales as readonly string[]).includes(value)
+
+/**
+ * Splits a normalized pathname into its locale and the path the app routes
+ * on: `/es/projects/mtat` is `{ locale: 'es', path: '/projects/mtat' }`.
+ * Paths without a locale prefix are in the default locale.
+ */
+export function splitLocale(pathname: string): { locale: Locale; path: string } {
+  const [, prefix, rest] = /^\/([^/]+)(\/.*)?$/.exec(pathname) ?? []
+  if (prefix && prefix !== defaultLocale && isLocale(prefix)) return { locale: prefix, path: rest || '/' }
+  return { locale: defaultLocale, path: pathname }
+}
+
+/**
+ * An app path (`/`, `/projects/mtat`, `/#about`) as served in `locale`. Every
+ * page is prerendered to `<path>/index.html`, which GitHub Pages serves
+ * without a redirect only at `<path>/`, so the path always gets a trailing
+ * slash: `/projects/mtat` in Spanish is `/es/projects/mtat/`.
+ */
+export function localizePath(path: string, locale: Locale): string {
+  const end = path.search(/[?#]|$/)
+  const page = path.slice(0, end).replace(/\/?$/, '/') + path.slice(end)
+  if (locale === defaultLocale) return page
+  return `/${locale}${page}`
+}
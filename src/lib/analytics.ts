@@ -0,0 +1,172 @@
+import type { Preference } from './preferences'
+
+/**
+ * Every event `track` accepts, with its properties. Properties describe what
+ * was clicked, never who clicked it: no ids, no cookies, nothing stored
+ * about the visitor.
+ */
+export type AnalyticsEvents = {
+  /** A project's repository, live demo (or its archive, while the demo is down) or page, from its card or its page */
+  project_link_click: { project: string; kind: 'github' | 'live' | 'archive' | 'details' }
+  /** "View all projects", to the GitHub profile */
+  all_projects_click: Record<string, never>
+  /** A navigation link to a home page section, from the bar or the mobile menu */
+  nav_click: { section: string; menu: 'bar' | 'mobile' }
+  /** A contact link, by its label, e.g. `LINKEDIN` */
+  contact_link_click: { link: string }
+  /** The copy button next to a contact link */
+  contact_copy: { link: string }
+  /** The first focus in the contact form on this page view */
+  contact_form_open: Record<string, never>
+  /** A submit that passed validation, and whether the message went out */
+  contact_form_submit: { outcome: 'sent' | 'failed' }
+}
+
+export type AnalyticsEventName = keyof AnalyticsEvents
+
+export type AnalyticsEvent = {
+  [K in AnalyticsEventName]: {
+    name: K
+    props: AnalyticsEvents[K]
+    /** Page path, without query string or hash */
+    path: string
+    /** Milliseconds since the epoch */
+    time: number
+  }
+}[AnalyticsEventName]
+
+/** Events without properties take none */
+type TrackArgs<K extends AnalyticsEventName> = AnalyticsEvents[K] extends Record<string, never> ? [] : [props: AnalyticsEvents[K]]
+
+/** Delivers a batch of events. Fire and forget: a lost batch is not retried. */
+export interface AnalyticsSink {
+  send(events: AnalyticsEvent[]): void
+}
+
+/** Posts each batch as `{ "events": [...] }` with `navigator.sendBeacon`, which survives the page closing. */
+export function beaconSink(endpoint: string): AnalyticsSink {
+  return {
+    send(events) {
+      // text/plain keeps it a CORS-safelisted request, so a cross-origin endpoint needs no preflight
+      navigator.sendBeacon(endpoint, new Blob([JSON.stringify({ events })], { type: 'text/plain' }))
+    },
+  }
+}
+
+/** Logs each batch instead of sending it, for watching events under `npm run dev` or in a local build. */
+export function consoleSink(): AnalyticsSink {
+  return {
+    send(events) {
+      console.info('[analytics] batch', events)
+    },
+  }
+}
+
+/**
+ * The sink for this build, chosen by `VITE_ANALYTICS_SINK`: `beacon` (to
+ * `VITE_ANALYTICS_ENDPOINT`), `console` or `off`. Defaults to the console
+ * under `npm run dev`, and to the beacon in production builds when an
+ * endpoint is set, otherwise off.
+ */
+export function defaultSink(): AnalyticsSink | null {
+  const endpoint = import.meta.env.VITE_ANALYTICS_ENDPOINT
+  const choice = import.meta.env.VITE_ANALYTICS_SINK ?? (import.meta.env.DEV ? 'console' : endpoint ? 'beacon' : 'off')
+  if (choice === 'console') return consoleSink()
+  if (choice === 'beacon' && endpoint) return beaconSink(endpoint)
+  return null
+}
+
+/** `off` when the visitor opted out in the footer, or their browser sends Do Not Track or Global Privacy Control */
+export type Consent = 'on' | 'off'
+
+const CONSENT_KEY = 'analytics'
+
+/** Do Not Track and Global Privacy Control can't be overridden from the page */
+export const blockedByBrowser = () =>
+  typeof navigator !== 'undefined' && (navigator.doNotTrack === '1' || (navigator as { globalPrivacyControl?: boolean }).globalPrivacyControl === true)
+
+function createConsent(): Preference<Consent> {
+  const listeners = new Set<() => void>()
+  return {
+    get: () => {
+      if (blockedByBrowser()) return 'off'
+      try {
+        return localStorage.getItem(CONSENT_KEY) === 'off' ? 'off' : 'on'
+      } catch {
+        return 'on'
+      }
+    },
+    set: (value) => {
+      try {
+        localStorage.setItem(CONSENT_KEY, value)
+      } catch {
+        // ignore
+      }
+      listeners.forEach((listener) => listener())
+    },
+    subscribe: (listener) => {
+      listeners.add(listener)
+      return () => listeners.delete(listener)
+    },
+  }
+}
+
+/** Whether events are recorded; the footer's toggle sets it. */
+export const consent = createConsent()
+
+/** A full batch is sent right away */
+const MAX_BATCH = 10
+/** Milliseconds a partial batch waits for more events */
+const FLUSH_DELAY = 5000
+
+export type Tracker = {
+  /** Queues an event, unless consent is off */
+  track: <K extends AnalyticsEventName>(name: K, ...args: TrackArgs<K>) => void
+  /** Sends the queued events now */
+  flush: () => void
+}
+
+/**
+ * Batches events for `sink`: a batch goes out when it's full, after a short
+ * pause, and when the page is hidden or closed. Without a sink, or without
+ * consent, `track` does nothing.
+ */
+export function createTracker(sink: AnalyticsSink | null, allowed: () => boolean = () => consent.get() === 'on'): Tracker {
+  let queue: AnalyticsEvent[] = []
+  let timer: ReturnType<typeof setTimeout> | undefined
+  let listening = false
+
+  const flush = () => {
+    clearTimeout(timer)
+    if (!sink || queue.length === 0) return
+    sink.send(queue)
+    queue = []
+  }
+
+  // Attached on the first event, so prerendering never touches `window`
+  const listen = () => {
+    if (listening) return
+    listening = true
+    window.addEventListener('pagehide', flush)
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'hidden') flush()
+    })
+  }
+
+  return {
+    track: (name, ...[props]) => {
+      if (!sink || !allowed()) return
+      listen()
+      queue.push({ name, props: props ?? {}, path: window.location.pathname, time: Date.now() } as AnalyticsEvent)
+      clearTimeout(timer)
+      if (queue.length >= MAX_BATCH) flush()
+      else timer = setTimeout(flush, FLUSH_DELAY)
+    },
+    flush,
+  }
+}
+
+const tracker = createTracker(defaultSink())
+
+/** Records `name` with its properties, e.g. `track('project_link_click', { project, kind: 'github' })`. */
+export const track = tracker.track
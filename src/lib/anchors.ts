@@ -0,0 +1,60 @@
+import type { Experience, Post, Project, ToolkitGroup } from '../content'
+import { motion } from './preferences'
+
+/** Lowercase words joined by hyphens, for element ids. */
+export const slugify = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '')
+
+// Element ids on the home page that search results scroll to
+
+export const projectAnchor = (project: Pick<Project, 'slug'>) => `project-${project.slug}`
+
+export const postAnchor = (post: Pick<Post, 'slug'>) => `post-${post.slug}`
+
+export const roleAnchor = (role: Pick<Experience, 'company' | 'title'>) => `role-${slugify(role.company)}-${slugify(role.title)}`
+
+export const achievementAnchor = (role: Pick<Experience, 'company' | 'title'>, index: number) => `${roleAnchor(role)}-${index + 1}`
+
+export const skillAnchor = (group: Pick<ToolkitGroup, 'title'>, item: string) => `skill-${slugify(group.title)}-${slugify(item)}`
+
+/** Frames to wait for an anchor that isn't rendered yet (e.g. right after navigating home) */
+const MAX_WAIT_FRAMES = 30
+
+/** Calls `found` with the element with `id`, waiting a few frames for it to render. */
+function whenRendered(id: string, found: (el: HTMLElement) => void) {
+  let frames = 0
+  const attempt = () => {
+    const el = document.getElementById(id)
+    if (el) found(el)
+    else if (++frames < MAX_WAIT_FRAMES) requestAnimationFrame(attempt)
+  }
+  attempt()
+}
+
+/**
+ * Scrolls the element with `id` into the middle of the viewport and flashes
+ * it with `.anchor-highlight`. Waits a few frames for the element to render.
+ */
+export function scrollToAnchor(id: string) {
+  const smooth = motion.get() === 'full'
+  whenRendered(id, (el) => {
+    el.scrollIntoView({ behavior: smooth ? 'smooth' : 'auto', block: 'center' })
+    el.classList.remove('anchor-highlight')
+    // Restart the animation if the same element is picked twice
+    void el.offsetWidth
+    el.classList.add('anchor-highlight')
+    el.addEventListener('animationend', () => el.classList.remove('anchor-highlight'), { once: true })
+  })
+}
+
+/**
+ * Jumps, without animating, to the element a URL hash (`#projects`) names,
+ * with its top just below the fixed header (see `scroll-padding-top`).
+ */
+export function jumpToHash(hash: string) {
+  const id = decodeURIComponent(hash.replace(/^#/, ''))
+  if (id) whenRendered(id, (el) => el.scrollIntoView({ behavior: 'instant', block: 'start' }))
+}
@@ -0,0 +1,272 @@
+export type CellStyle = {
+  fg?: string
+  bg?: string
+  bold?: boolean
+  dim?: boolean
+  italic?: boolean
+  underline?: boolean
+  inverse?: boolean
+}
+
+/** A run of characters on one row that share a style. */
+export type Segment = {
+  text: string
+  style: CellStyle
+}
+
+type Cell = {
+  char: string
+  style: CellStyle
+}
+
+/** The 16 base colors, tuned to read on the site's slate-950 terminal background. */
+const PALETTE = [
+  '#475569', '#f87171', '#34d399', '#fbbf24', '#60a5fa', '#c17b8e', '#22d3ee', '#cbd5e1',
+  '#64748b', '#fca5a5', '#6ee7b7', '#fde68a', '#93c5fd', '#e3a9b8', '#67e8f9', '#f8fafc',
+]
+
+const CUBE_LEVELS = [0, 95, 135, 175, 215, 255]
+
+const hex = (r: number, g: number, b: number) => '#' + [r, g, b].map((v) => v.toString(16).padStart(2, '0')).join('')
+
+/** Resolves an xterm 256-color index. */
+function color256(index: number): string | undefined {
+  if (index < 16) return PALETTE[index]
+  if (index < 232) {
+    const i = index - 16
+    return hex(CUBE_LEVELS[Math.floor(i / 36)], CUBE_LEVELS[Math.floor(i / 6) % 6], CUBE_LEVELS[i % 6])
+  }
+  if (index < 256) {
+    const level = 8 + (index - 232) * 10
+    return hex(level, level, level)
+  }
+}
+
+const blank = (style: CellStyle = {}): Cell => ({ char: ' ', style })
+
+const sameStyle = (a: CellStyle, b: CellStyle) =>
+  a.fg === b.fg && a.bg === b.bg && a.bold === b.bold && a.dim === b.dim &&
+  a.italic === b.italic && a.underline === b.underline && a.inverse === b.inverse
+
+/**
+ * A minimal terminal screen for replaying recorded output: printable text,
+ * CR/LF/BS/TAB, SGR colors (16, 256 and truecolor), cursor movement and
+ * line/screen erase. Anything else (OSC titles, private modes) is ignored.
+ */
+export class AnsiScreen {
+  private cells: Cell[][]
+  private x = 0
+  private y = 0
+  private style: CellStyle = {}
+  /** Unfinished escape sequence carried over from the previous `write` */
+  private pending = ''
+
+  constructor(
+    readonly cols: number,
+    readonly rows: number,
+  ) {
+    this.cells = Array.from({ length: rows }, () => this.emptyRow())
+  }
+
+  write(data: string) {
+    const input = this.pending + data
+    this.pending = ''
+    let i = 0
+
+    while (i < input.length) {
+      const char = input[i]
+
+      if (char === '\x1b') {
+        const consumed = this.escape(input, i)
+        if (consumed === 0) {
+          this.pending = input.slice(i)
+          return
+        }
+        i += consumed
+        continue
+      }
+
+      switch (char) {
+        case '\r':
+          this.x = 0
+          break
+        case '\n':
+          this.lineFeed()
+          break
+        case '\b':
+          this.x = Math.max(0, this.x - 1)
+          break
+        case '\t':
+          this.x = Math.min(this.cols - 1, (Math.floor(this.x / 8) + 1) * 8)
+          break
+        case '\x07':
+          break
+        default: {
+          // Keep surrogate pairs (emoji) together in one cell
+          const code = input.codePointAt(i)!
+          const printable = String.fromCodePoint(code)
+          if (code >= 0x20) this.print(printable)
+          i += printable.length
+          continue
+        }
+      }
+      i++
+    }
+  }
+
+  /** Rows of styled segments for rendering. */
+  segments(): Segment[][] {
+    return this.cells.map((row) => {
+      const segments: Segment[] = []
+      for (const cell of row) {
+        const last = segments[segments.length - 1]
+        if (last && sameStyle(last.style, cell.style)) last.text += cell.char
+        else segments.push({ text: cell.char, style: cell.style })
+      }
+      return segments
+    })
+  }
+
+  private emptyRow(): Cell[] {
+    return Array.from({ length: this.cols }, () => blank())
+  }
+
+  private print(char: string) {
+    if (this.x >= this.cols) {
+      this.x = 0
+      this.lineFeed()
+    }
+    this.cells[this.y][this.x] = { char, style: this.style }
+    this.x++
+  }
+
+  private lineFeed() {
+    if (this.y < this.rows - 1) {
+      this.y++
+    } else {
+      this.cells.shift()
+      this.cells.push(this.emptyRow())
+    }
+  }
+
+  /** Handles an escape sequence at `start`; returns its length, or 0 if it is cut off. */
+  private escape(input: string, start: number): number {
+    const kind = input[start + 1]
+    if (kind === undefined) return 0
+
+    if (kind === '[') {
+      let end = start + 2
+      while (end < input.length && !/[\x40-\x7e]/.test(input[end])) end++
+      if (end >= input.length) return 0
+      this.csi(input.slice(start + 2, end), input[end])
+      return end - start + 1
+    }
+
+    if (kind === ']') {
+      // OSC (window title etc.), terminated by BEL or ESC \
+      for (let end = start + 2; end < input.length; end++) {
+        if (input[end] === '\x07') return end - start + 1
+        if (input[end] === '\x1b' && input[end + 1] === '\\') return end - start + 2
+      }
+      return 0
+    }
+
+    return 2
+  }
+
+  private csi(params: string, final: string) {
+    if (params.startsWith('?') || params.startsWith('>')) return
+    const args = params === '' ? [] : params.split(';').map((p) => parseInt(p, 10) || 0)
+    const n = args[0] || 1
+
+    switch (final) {
+      case 'm':
+        this.sgr(args.length > 0 ? args : [0])
+        break
+      case 'A':
+        this.y = Math.max(0, this.y - n)
+        break
+      case 'B':
+        this.y = Math.min(this.rows - 1, this.y + n)
+        break
+      case 'C':
+        this.x = Math.min(this.cols - 1, this.x + n)
+        break
+      case 'D':
+        this.x = Math.max(0, this.x - n)
+        break
+      case 'G':
+        this.x = Math.min(this.cols - 1, n - 1)
+        break
+      case 'd':
+        this.y = Math.min(this.rows - 1, n - 1)
+        break
+      case 'H':
+      case 'f':
+        this.y = Math.min(this.rows - 1, (args[0] || 1) - 1)
+        this.x = Math.min(this.cols - 1, (args[1] || 1) - 1)
+        break
+      case 'K':
+        this.eraseInLine(args[0] ?? 0)
+        break
+      case 'J':
+        this.eraseInDisplay(args[0] ?? 0)
+        break
+    }
+  }
+
+  private eraseInLine(mode: number) {
+    const row = this.cells[this.y]
+    const [from, to] = mode === 0 ? [this.x, this.cols] : mode === 1 ? [0, this.x + 1] : [0, this.cols]
+    for (let x = from; x < to; x++) row[x] = blank()
+  }
+
+  private eraseInDisplay(mode: number) {
+    if (mode === 2 || mode === 3) {
+      this.cells = Array.from({ length: this.rows }, () => this.emptyRow())
+      return
+    }
+    this.eraseInLine(mode)
+    const rows = mode === 0 ? [this.y + 1, this.rows] : [0, this.y]
+    for (let y = rows[0]; y < rows[1]; y++) this.cells[y] = this.emptyRow()
+  }
+
+  private sgr(args: number[]) {
+    let style: CellStyle = { ...this.style }
+
+    for (let i = 0; i < args.length; i++) {
+      const code = args[i]
+      if (code === 0) style = {}
+      else if (code === 1) style.bold = true
+      else if (code === 2) style.dim = true
+      else if (code === 3) style.italic = true
+      else if (code === 4) style.underline = true
+      else if (code === 7) style.inverse = true
+      else if (code === 22) style.bold = style.dim = undefined
+      else if (code === 23) style.italic = undefined
+      else if (code === 24) style.underline = undefined
+      else if (code === 27) style.inverse = undefined
+      else if (code >= 30 && code <= 37) style.fg = PALETTE[code - 30]
+      else if (code === 39) style.fg = undefined
+      else if (code >= 40 && code <= 47) style.bg = PALETTE[code - 40]
+      else if (code === 49) style.bg = undefined
+      else if (code >= 90 && code <= 97) style.fg = PALETTE[code - 90 + 8]
+      else if (code >= 100 && code <= 107) style.bg = PALETTE[code - 100 + 8]
+      else if (code === 38 || code === 48) {
+        // 38;5;n / 38;2;r;g;b (and 48 for background)
+        let value: string | undefined
+        if (args[i + 1] === 5) {
+          value = color256(args[i + 2])
+          i += 2
+        } else if (args[i + 1] === 2) {
+          value = hex(args[i + 2] ?? 0, args[i + 3] ?? 0, args[i + 4] ?? 0)
+          i += 4
+        }
+        if (code === 38) style.fg = value
+        else style.bg = value
+      }
+    }
+
+    this.style = style
+  }
+}
@@ -0,0 +1,85 @@
+/** One output event from an asciicast v2 recording. */
+export type CastEvent = {
+  /** Seconds since the start of the recording */
+  time: number
+  data: string
+}
+
+export type Cast = {
+  width: number
+  height: number
+  /** Seconds; the time of the last event */
+  duration: number
+  events: CastEvent[]
+}
+
+type Header = {
+  version: number
+  width: number
+  height: number
+  idle_time_limit?: number
+}
+
+export class CastParseError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CastParseError'
+  }
+}
+
+/**
+ * Parses an asciicast v2 file (https://docs.asciinema.org/manual/asciicast/v2/).
+ * Event times must not go backwards. Only output (`"o"`) events are kept.
+ * Pauses longer than the header's `idle_time_limit` are shortened to it, as
+ * asciinema's own player does.
+ */
+export function parseCast(source: string): Cast {
+  // Keep each line's number in the file so errors point at the right place
+  const lines = source
+    .split('\n')
+    .map((text, i) => ({ text, number: i + 1 }))
+    .filter(({ text }) => text.trim() !== '')
+  if (lines.length === 0) throw new CastParseError('file is empty')
+
+  let header: Header
+  try {
+    header = JSON.parse(lines[0].text)
+  } catch {
+    throw new CastParseError('first line is not a JSON header')
+  }
+  if (typeof header !== 'object' || header === null || Array.isArray(header)) {
+    throw new CastParseError('first line is not a JSON header')
+  }
+  if (header.version !== 2) throw new CastParseError(`unsupported asciicast version ${header.version}, expected 2`)
+  if (!(header.width > 0) || !(header.height > 0)) throw new CastParseError('header must set a positive width and height')
+
+  const idleLimit = header.idle_time_limit ?? Infinity
+  const events: CastEvent[] = []
+  let previous = 0
+  let shift = 0
+
+  for (const { text, number } of lines.slice(1)) {
+    let event: unknown
+    try {
+      event = JSON.parse(text)
+    } catch {
+      throw new CastParseError(`line ${number} is not valid JSON`)
+    }
+    if (!Array.isArray(event) || typeof event[0] !== 'number' || typeof event[1] !== 'string' || typeof event[2] !== 'string') {
+      throw new CastParseError(`line ${number} is not a [time, code, data] event`)
+    }
+    const [time, code, data] = event as [number, string, string]
+    // Seeking and the duration assume the events are in order
+    if (time < previous) throw new CastParseError(`line ${number} goes back in time (${time}s after ${previous}s)`)
+    shift += Math.max(0, time - previous - idleLimit)
+    previous = time
+    if (code === 'o') events.push({ time: time - shift, data })
+  }
+
+  return {
+    width: header.width,
+    height: header.height,
+    duration: events.length > 0 ? events[events.length - 1].time : 0,
+    events,
+  }
+}
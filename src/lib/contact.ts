@@ -0,0 +1,135 @@
+import { translate, type MessageKey, type MessageValues } from '../i18n'
+
+export type ContactMessage = {
+  name: string
+  email: string
+  message: string
+}
+
+export type ContactField = keyof ContactMessage
+
+/** A problem to show the sender, as a message catalog key and its values. */
+export type ContactProblem = { key: MessageKey; values?: MessageValues }
+
+export type ContactErrors = Partial<Record<ContactField, ContactProblem>>
+
+/** Delivers a contact message; rejects with a `ContactSendError` when it wasn't accepted. */
+export interface ContactTransport {
+  send(message: ContactMessage): Promise<void>
+}
+
+export class ContactSendError extends Error {
+  /** What to tell the sender, in their locale; `message` is the English text for logs */
+  readonly problem: ContactProblem
+
+  constructor(key: MessageKey, values?: MessageValues) {
+    super(translate('en', key, values))
+    this.name = 'ContactSendError'
+    this.problem = { key, values }
+  }
+}
+
+const FORMSPREE_FORM = 'xnjbgovz'
+
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+const NAME_MAX = 100
+export const MESSAGE_MIN = 10
+export const MESSAGE_MAX = 5000
+
+/** Field-level problems with a message, keyed by field; empty when it can be sent. */
+export function validateContact({ name, email, message }: ContactMessage): ContactErrors {
+  const errors: ContactErrors = {}
+  if (!name.trim()) errors.name = { key: 'form.error.nameRequired' }
+  else if (name.trim().length > NAME_MAX) errors.name = { key: 'form.error.nameTooLong', values: { max: NAME_MAX } }
+
+  if (!email.trim()) errors.email = { key: 'form.error.emailRequired' }
+  else if (!EMAIL.test(email.trim())) errors.email = { key: 'form.error.emailInvalid' }
+
+  if (message.trim().length < MESSAGE_MIN) errors.message = { key: 'form.error.messageTooShort', values: { min: MESSAGE_MIN } }
+  else if (message.length > MESSAGE_MAX) errors.message = { key: 'form.error.messageTooLong', values: { max: MESSAGE_MAX } }
+  return errors
+}
+
+/** Messages finished faster than this after the first keystroke are assumed to be bots */
+export const MIN_FILL_TIME = 3000
+
+type SpamSignals = {
+  /** The hidden field only bots fill in; empty where there is none */
+  honeypot: string
+  /** When the sender first typed, or null if they sent a restored draft untouched */
+  startedAt: number | null
+}
+
+/**
+ * The spam checks every way of sending runs before it calls the transport:
+ * `bot` when the honeypot is filled (tell it the message went out, and drop
+ * it), `too-fast` when it was written in under `MIN_FILL_TIME`.
+ */
+export function screenMessage({ honeypot, startedAt }: SpamSignals, now = Date.now()): 'ok' | 'bot' | 'too-fast' {
+  if (honeypot) return 'bot'
+  if (startedAt !== null && now - startedAt < MIN_FILL_TIME) return 'too-fast'
+  return 'ok'
+}
+
+/** Posts to a Formspree form (https://formspree.io/f/<formId>). */
+export function formspreeTransport(formId = FORMSPREE_FORM): ContactTransport {
+  return {
+    async send(message) {
+      let response: Response
+      try {
+        response = await fetch(`https://formspree.io/f/${formId}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+          body: JSON.stringify(message),
+        })
+      } catch {
+        throw new ContactSendError('form.error.unreachable')
+      }
+      if (response.ok) return
+
+      // Formspree explains rejections as { errors: [{ message }] }, in English
+      const body = await response.json().catch(() => null)
+      const reason = Array.isArray(body?.errors)
+        ? body.errors.map((error: { message?: unknown }) => error?.message).filter((message: unknown) => typeof message === 'string').join(' ')
+        : ''
+      if (reason) throw new ContactSendError('form.error.rejected', { reason })
+      throw new ContactSendError('form.error.http', { status: response.status })
+    },
+  }
+}
+
+type MockOptions = {
+  /** Milliseconds before the send settles */
+  delay?: number
+  fail?: boolean
+}
+
+/** Offline stand-in for `npm run dev` that logs the message instead of sending it. */
+export function mockTransport({ delay = 800, fail = false }: MockOptions = {}): ContactTransport {
+  return {
+    send(message) {
+      return new Promise((resolve, reject) => {
+        setTimeout(() => {
+          if (fail) {
+            reject(new ContactSendError('form.error.mock'))
+          } else {
+            console.info('[contact] mock send', message)
+            resolve()
+          }
+        }, delay)
+      })
+    },
+  }
+}
+
+/**
+ * The transport for this build, chosen by `VITE_CONTACT_TRANSPORT`:
+ * `formspree`, `mock` or `mock-fail`. Defaults to Formspree in production
+ * builds and the mock under `npm run dev`.
+ */
+export function defaultTransport(): ContactTransport {
+  const choice = import.meta.env.VITE_CONTACT_TRANSPORT ?? (import.meta.env.DEV ? 'mock' : 'formspree')
+  if (choice === 'mock') return mockTransport()
+  if (choice === 'mock-fail') return mockTransport({ fail: true })
+  return formspreeTransport()
+}
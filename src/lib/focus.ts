@@ -0,0 +1,25 @@
+const FOCUSABLE = 'button:not([disabled]), [href], input:not([disabled]), select, textarea, [tabindex]:not([tabindex="-1"])'
+
+/**
+ * Keeps Tab and Shift+Tab cycling inside `container`. Call from a keydown
+ * handler; returns true when it moved focus (the event is then handled).
+ */
+export function trapFocus(e: { key: string; shiftKey: boolean; preventDefault(): void }, container: HTMLElement | null): boolean {
+  if (e.key !== 'Tab' || !container) return false
+  // Skip elements that aren't rendered (display: none), which can't take focus
+  const focusable = Array.from(container.querySelectorAll<HTMLElement>(FOCUSABLE)).filter((el) => el.getClientRects().length > 0)
+  if (focusable.length === 0) return false
+  const first = focusable[0]
+  const last = focusable[focusable.length - 1]
+  const active = document.activeElement
+
+  if (e.shiftKey && (active === first || !container.contains(active))) {
+    last.focus()
+  } else if (!e.shiftKey && (active === last || !container.contains(active))) {
+    first.focus()
+  } else {
+    return false
+  }
+  e.preventDefault()
+  return true
+}
@@ -0,0 +1,48 @@
+export type FuzzyMatch = {
+  score: number
+  /** Positions in the text that matched, for highlighting */
+  indices: number[]
+}
+
+const WORD_BREAK = /[\s\-_/.(&@·]/
+
+/** How far apart, relative to the query length, matched characters may be */
+const MAX_SPREAD = 3
+
+const range = (start: number, length: number) => Array.from({ length }, (_, i) => start + i)
+
+/**
+ * Matches `query` against `text` as a case-insensitive subsequence, so
+ * `dyndb` finds "DynamoDB". Consecutive characters and word starts score
+ * higher, a plain substring higher still, and shorter texts win ties.
+ * Returns null when some query character is missing or the matches are
+ * too spread out.
+ */
+export function fuzzyMatch(query: string, text: string): FuzzyMatch | null {
+  const q = query.trim().toLowerCase()
+  const t = text.toLowerCase()
+  if (!q) return { score: 0, indices: [] }
+
+  const substring = t.indexOf(q)
+  if (substring !== -1) {
+    const wordStart = substring === 0 || WORD_BREAK.test(t[substring - 1])
+    return { score: 100 + (wordStart ? 50 : 0) + q.length * 5 - t.length * 0.1, indices: range(substring, q.length) }
+  }
+
+  const indices: number[] = []
+  let score = 0
+  let previous = -2
+  for (let ti = 0, qi = 0; ti < t.length && qi < q.length; ti++) {
+    if (t[ti] !== q[qi]) continue
+    score += 1
+    if (ti === previous + 1) score += 4
+    if (ti === 0 || WORD_BREAK.test(t[ti - 1])) score += 3
+    indices.push(ti)
+    previous = ti
+    qi++
+  }
+  if (indices.length < q.length) return null
+  // Letters scattered across a long sentence aren't a meaningful match
+  if (indices[indices.length - 1] - indices[0] + 1 > q.length * MAX_SPREAD) return null
+  return { score: score - t.length * 0.1, indices }
+}
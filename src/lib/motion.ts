@@ -0,0 +1,71 @@
+import { gsap } from 'gsap'
+import { ScrollTrigger } from 'gsap/ScrollTrigger'
+import Lenis from 'lenis'
+
+gsap.registerPlugin(ScrollTrigger)
+
+export { gsap, ScrollTrigger }
+
+/** Where a reveal starts: the element's top reaching 85% of the way down the viewport */
+export const REVEAL_START = 'top 85%'
+
+/** Milliseconds between the last layout change and re-measuring the scroll triggers */
+const REFRESH_DEBOUNCE = 150
+
+/** The running Lenis instance, while smooth scrolling is on */
+let smoothScroll: Lenis | undefined
+
+/** Open modals holding the scroll lock; the page scrolls again once the last one lets go */
+let scrollLocks = 0
+
+/**
+ * Stops the page scrolling behind a modal. Lenis turns wheel and touch input
+ * into scrolling itself, so `overflow: hidden` on the body isn't enough: it
+ * is stopped too. Scroll areas inside the modal need `data-lenis-prevent`.
+ * Returns a function that releases the lock.
+ */
+export function lockScroll(): () => void {
+  const overflow = document.body.style.overflow
+  document.body.style.overflow = 'hidden'
+  scrollLocks++
+  smoothScroll?.stop()
+  return () => {
+    document.body.style.overflow = overflow
+    scrollLocks--
+    if (scrollLocks === 0) smoothScroll?.start()
+  }
+}
+
+/**
+ * Smooths wheel and touch scrolling with Lenis, driven by the GSAP ticker so
+ * scroll-linked tweens update in the same frame as the scroll position.
+ * Re-measures every ScrollTrigger when the page's height changes (a section
+ * expanding, a route rendering). Returns a function that undoes all of it.
+ */
+export function startSmoothScroll(): () => void {
+  const lenis = new Lenis()
+  smoothScroll = lenis
+  if (scrollLocks > 0) lenis.stop()
+  const raf = (time: number) => lenis.raf(time * 1000)
+
+  lenis.on('scroll', ScrollTrigger.update)
+  gsap.ticker.add(raf)
+  // Catching up after a dropped frame would make the page jump
+  gsap.ticker.lagSmoothing(0)
+
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const resize = new ResizeObserver(() => {
+    clearTimeout(timer)
+    timer = setTimeout(() => ScrollTrigger.refresh(), REFRESH_DEBOUNCE)
+  })
+  resize.observe(document.body)
+
+  return () => {
+    clearTimeout(timer)
+    resize.disconnect()
+    gsap.ticker.remove(raf)
+    gsap.ticker.lagSmoothing(500, 33)
+    lenis.destroy()
+    smoothScroll = undefined
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * Display preferences that follow an OS setting until the visitor picks a
+ * value, which is then remembered. Each one is applied as a `data-*`
+ * attribute on `<html>` for CSS to read. The pre-paint script in index.html
+ * applies the stored or OS values before React loads; keep it in sync.
+ */
+export type Preference<T extends string> = {
+  /** The value on the page right now */
+  get: () => T
+  /** Applies `value` and remembers it, so the OS setting stops applying */
+  set: (value: T) => void
+  /**
+   * Calls `listener` whenever the value changes, including when the OS
+   * setting changes and nothing is stored. Returns an unsubscribe.
+   */
+  subscribe: (listener: () => void) => () => void
+}
+
+type PreferenceOptions<T extends string> = {
+  /** localStorage key */
+  key: string
+  /** Name of the `data-*` attribute on `<html>`, e.g. `theme` for `data-theme` */
+  attribute: string
+  /** Every value; the first is the one used while the attribute is missing (e.g. during prerender) */
+  values: readonly [T, ...T[]]
+  /** Media query that picks `whenMatches` over the first value while nothing is stored */
+  query: string
+  whenMatches: T
+}
+
+export function createPreference<T extends string>({ key, attribute, values, query, whenMatches }: PreferenceOptions<T>): Preference<T> {
+  const listeners = new Set<() => void>()
+  const isValue = (value: unknown): value is T => values.includes(value as T)
+
+  // localStorage can throw (private browsing, storage full); then the choice just isn't remembered
+  const stored = (): T | null => {
+    try {
+      const value = localStorage.getItem(key)
+      return isValue(value) ? value : null
+    } catch {
+      return null
+    }
+  }
+
+  const system = (): T => (window.matchMedia(query).matches ? whenMatches : values[0])
+
+  const apply = (value: T) => {
+    document.documentElement.dataset[attribute] = value
+    listeners.forEach((listener) => listener())
+  }
+
+  return {
+    get: () => {
+      const value = document.documentElement.dataset[attribute]
+      return isValue(value) ? value : values[0]
+    },
+    set: (value) => {
+      try {
+        localStorage.setItem(key, value)
+      } catch {
+        // ignore
+      }
+      apply(value)
+    },
+    subscribe: (listener) => {
+      const media = window.matchMedia(query)
+      const onSystemChange = () => {
+        if (!stored()) apply(system())
+      }
+      listeners.add(listener)
+      media.addEventListener('change', onSystemChange)
+      return () => {
+        listeners.delete(listener)
+        media.removeEventListener('change', onSystemChange)
+      }
+    },
+  }
+}
+
+export type Theme = 'light' | 'dark'
+
+export const theme = createPreference<Theme>({
+  key: 'theme',
+  attribute: 'theme',
+  values: ['light', 'dark'],
+  query: '(prefers-color-scheme: dark)',
+  whenMatches: 'dark',
+})
+
+/** `reduce` turns off animations and smooth scrolling, see index.css */
+export type Motion = 'full' | 'reduce'
+
+export const motion = createPreference<Motion>({
+  key: 'motion',
+  attribute: 'motion',
+  values: ['full', 'reduce'],
+  query: '(prefers-reduced-motion: reduce)',
+  whenMatches: 'reduce',
+})
+
+/** The custom cursor; off by default on touch screens, where there is no pointer to follow */
+export type Cursor = 'off' | 'on'
+
+export const cursor = createPreference<Cursor>({
+  key: 'cursor',
+  attribute: 'cursor',
+  values: ['off', 'on'],
+  query: '(pointer: fine)',
+  whenMatches: 'on',
+})
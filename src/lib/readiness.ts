@@ -0,0 +1,17 @@
+/** The faces index.css loads, as `font` shorthands for `document.fonts.load` */
+const FONTS = ['1em "JetBrains Mono"', '1em Inter']
+
+/** Resolves once the site's fonts have loaded, or failed to; the text is then set in its final face. */
+export async function fontsReady(): Promise<void> {
+  await Promise.all(FONTS.map((font) => document.fonts.load(font).catch(() => undefined)))
+  await document.fonts.ready
+}
+
+/** Resolves once every image in the first screenful has decoded, or failed to. */
+export async function firstScreenImagesDecoded(): Promise<void> {
+  const visible = Array.from(document.images).filter((img) => {
+    const rect = img.getBoundingClientRect()
+    return rect.width > 0 && rect.bottom > 0 && rect.top < window.innerHeight
+  })
+  await Promise.all(visible.map((img) => img.decode().catch(() => undefined)))
+}
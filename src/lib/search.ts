@@ -0,0 +1,102 @@
+import type { Content } from '../content'
+import { navItems } from '../nav'
+import { fuzzyMatch } from './fuzzy'
+import { achievementAnchor, postAnchor, projectAnchor, roleAnchor, skillAnchor } from './anchors'
+
+export const searchKinds = ['section', 'project', 'tag', 'post', 'role', 'achievement', 'skill', 'link'] as const
+export type SearchKind = (typeof searchKinds)[number]
+
+/** Where a result leads: an element on the home page, or an external URL. */
+export type SearchTarget = { type: 'anchor'; id: string } | { type: 'url'; href: string }
+
+export type SearchItem = {
+  /** Unique within the index */
+  key: string
+  kind: SearchKind
+  title: string
+  /** Context shown under the title; also searched (substrings only), at a lower weight */
+  subtitle?: string
+  target: SearchTarget
+}
+
+export type SearchResult = SearchItem & {
+  score: number
+  /** Matched positions in `title` */
+  indices: number[]
+}
+
+/** Every searchable thing on the site, built from the same content the sections render. */
+export function buildSearchIndex({
+  projects,
+  posts,
+  experiences,
+  toolkit,
+  contactLinks,
+}: Pick<Content, 'projects' | 'posts' | 'experiences' | 'toolkit' | 'contactLinks'>): SearchItem[] {
+  const anchor = (id: string): SearchTarget => ({ type: 'anchor', id })
+
+  return [
+    ...navItems.map((item): SearchItem => ({ key: `section:${item.id}`, kind: 'section', title: item.label, target: anchor(item.id) })),
+    ...projects.flatMap((project): SearchItem[] => [
+      { key: `project:${project.slug}`, kind: 'project', title: project.title, subtitle: project.description, target: anchor(projectAnchor(project)) },
+      ...project.tags.map((tag): SearchItem => ({
+        key: `tag:${project.slug}:${tag}`,
+        kind: 'tag',
+        title: tag,
+        subtitle: project.title,
+        target: anchor(projectAnchor(project)),
+      })),
+    ]),
+    ...posts.map((post): SearchItem => ({ key: `post:${post.slug}`, kind: 'post', title: post.title, subtitle: post.summary, target: anchor(postAnchor(post)) })),
+    ...experiences.flatMap((role): SearchItem[] => [
+      { key: `role:${roleAnchor(role)}`, kind: 'role', title: role.title, subtitle: `${role.company} · ${role.period}`, target: anchor(roleAnchor(role)) },
+      ...role.achievements.map((achievement, i): SearchItem => ({
+        key: `achievement:${achievementAnchor(role, i)}`,
+        kind: 'achievement',
+        title: achievement,
+        subtitle: `${role.title} · ${role.company}`,
+        target: anchor(achievementAnchor(role, i)),
+      })),
+    ]),
+    ...toolkit.flatMap((group) =>
+      group.items.map((item): SearchItem => ({
+        key: `skill:${skillAnchor(group, item)}`,
+        kind: 'skill',
+        title: item,
+        subtitle: group.title,
+        target: anchor(skillAnchor(group, item)),
+      }))
+    ),
+    ...contactLinks.map((link): SearchItem => ({
+      key: `link:${link.href}`,
+      kind: 'link',
+      title: link.value,
+      subtitle: link.label,
+      target: { type: 'url', href: link.href },
+    })),
+  ]
+}
+
+/** Subtitle-only matches rank below any title match */
+const SUBTITLE_WEIGHT = 0.3
+
+/** Best matches first. An empty query returns sections and projects as a starting point. */
+export function searchIndex(items: SearchItem[], query: string, limit = 50): SearchResult[] {
+  if (!query.trim()) {
+    return items.filter((item) => item.kind === 'section' || item.kind === 'project').map((item) => ({ ...item, score: 0, indices: [] }))
+  }
+
+  const results: SearchResult[] = []
+  for (const item of items) {
+    const title = fuzzyMatch(query, item.title)
+    // A loose match in a long title scores below zero; drop it
+    if (title && title.score > 0) {
+      results.push({ ...item, score: title.score, indices: title.indices })
+      continue
+    }
+    // Subtitles are long and shared between items, so only exact substrings count there
+    const subtitle = item.subtitle?.toLowerCase().includes(query.trim().toLowerCase()) && fuzzyMatch(query, item.subtitle)
+    if (subtitle) results.push({ ...item, score: subtitle.score * SUBTITLE_WEIGHT, indices: [] })
+  }
+  return results.sort((a, b) => b.score - a.score).slice(0, limit)
+}
@@ -0,0 +1,219 @@
+import type { Content, TerminalLine } from '../content'
+import type { MessageKey, Translate } from '../i18n'
+import { projectPath } from '../router'
+import type { Theme } from './theme'
+
+/** The content collections the shell reads; the same data the page sections render. */
+export type ShellData = Pick<Content, 'projects' | 'experiences' | 'toolkit' | 'contactLinks' | 'terminalLines'>
+
+/** Side effects a command can ask of the terminal that runs it. */
+export type ShellActions = {
+  clear: () => void
+  /** Opens an external URL in a new tab */
+  openUrl: (url: string) => void
+  /** In-app navigation */
+  navigate: (path: string) => void
+  /** Switches the terminal into the guided `mail` prompts */
+  startMail: () => void
+  theme: () => Theme
+  setTheme: (theme: Theme) => void
+}
+
+type Command = {
+  usage: MessageKey
+  summary: MessageKey
+  run: (args: string[], data: ShellData, actions: ShellActions, t: Translate) => TerminalLine[]
+  /** Candidates for the argument after `args` */
+  complete?: (args: string[], data: ShellData) => string[]
+}
+
+const output = (text: string): TerminalLine => ({ kind: 'output', text })
+const success = (text: string): TerminalLine => ({ kind: 'success', text })
+const warning = (text: string): TerminalLine => ({ kind: 'warning', text })
+const comment = (text: string): TerminalLine => ({ kind: 'comment', text })
+const field = (key: string, value: string): TerminalLine => ({ kind: 'key-value', text: `${key}: ${value}` })
+
+const PROJECTS_DIR = 'projects/'
+
+/** `open` targets: contact links by lowercased label, then projects by slug. */
+function openTargets({ contactLinks, projects }: ShellData) {
+  return [...contactLinks.map((link) => link.label.toLowerCase()), ...projects.map((project) => project.slug)]
+}
+
+const commands: Record<string, Command> = {
+  help: {
+    usage: 'shell.help.usage',
+    summary: 'shell.help.summary',
+    run: (_, __, ___, t) => {
+      const rows = Object.values(commands).map((command) => [t(command.usage), t(command.summary)])
+      // Translated usages differ in length, so the summaries line up after the longest
+      const width = Math.max(...rows.map(([usage]) => usage.length)) + 2
+      return [...rows.map(([usage, summary]) => output(usage.padEnd(width) + summary)), comment(t('shell.help.hint'))]
+    },
+  },
+
+  whoami: {
+    usage: 'shell.whoami.usage',
+    summary: 'shell.whoami.summary',
+    // The contact intro lines carry the profile as `> user.<key>: <value>`
+    run: (_, { terminalLines }) =>
+      terminalLines.flatMap(({ text }) => {
+        const match = /user\.(\w+):\s*(.+)$/.exec(text)
+        return match ? [field(match[1], match[2])] : []
+      }),
+  },
+
+  ls: {
+    usage: 'shell.ls.usage',
+    summary: 'shell.ls.summary',
+    run: ([dir], { projects }, _, t) => {
+      // `projects/` is the only directory; the rest of the site is reached through commands
+      if (!dir) return [output(PROJECTS_DIR), comment(t('shell.ls.hint'))]
+      if (dir.replace(/\/$/, '') !== 'projects') return [warning(t('shell.ls.missing', { dir }))]
+      return projects.map((project) => field(project.slug, project.description))
+    },
+    complete: (args) => (args.length === 0 ? [PROJECTS_DIR] : []),
+  },
+
+  cat: {
+    usage: 'shell.cat.usage',
+    summary: 'shell.cat.summary',
+    run: ([file], { projects }, _, t) => {
+      if (!file) return [warning(t('shell.usage', { usage: t('shell.cat.usage') }))]
+      const project = file.startsWith(PROJECTS_DIR) && projects.find((p) => p.slug === file.slice(PROJECTS_DIR.length))
+      if (!project) return [warning(t('shell.cat.missing', { file }))]
+      return [
+        success(project.title),
+        output(project.longDescription),
+        field('tags', project.tags.join(', ')),
+        field('github', project.github),
+        ...(project.live ? [field('live', project.liveStatus === 'up' ? project.live : t('shell.cat.offline'))] : []),
+        comment(t('shell.cat.more', { slug: project.slug })),
+      ]
+    },
+    complete: (args, { projects }) => (args.length === 0 ? projects.map((p) => PROJECTS_DIR + p.slug) : []),
+  },
+
+  experience: {
+    usage: 'shell.experience.usage',
+    summary: 'shell.experience.summary',
+    run: (_, { experiences }) =>
+      experiences.flatMap((role) => [
+        success(`${role.title} @ ${role.company}`),
+        output(`${role.period} · ${role.location}`),
+      ]),
+  },
+
+  skills: {
+    usage: 'shell.skills.usage',
+    summary: 'shell.skills.summary',
+    run: (args, { toolkit }, _, t) => {
+      const flag = args.indexOf('--filter')
+      const term = flag === -1 ? '' : args.slice(flag + 1).join(' ').toLowerCase()
+      if (flag !== -1 && !term) return [warning(t('shell.usage', { usage: t('shell.skills.filterUsage') }))]
+
+      const groups = toolkit
+        .map((group) => ({
+          title: group.title,
+          // A matching group title keeps the whole group
+          items: group.title.toLowerCase().includes(term) ? group.items : group.items.filter((item) => item.toLowerCase().includes(term)),
+        }))
+        .filter((group) => group.items.length > 0)
+      if (groups.length === 0) return [warning(t('shell.skills.none', { term }))]
+      return groups.map((group) => field(group.title.toLowerCase(), group.items.join(', ')))
+    },
+    complete: (args) => (args.length === 0 ? ['--filter'] : []),
+  },
+
+  open: {
+    usage: 'shell.open.usage',
+    summary: 'shell.open.summary',
+    run: ([target], data, actions, t) => {
+      if (!target) return [warning(t('shell.usage', { usage: `open <${openTargets(data).join('|')}>` }))]
+      const link = data.contactLinks.find((l) => l.label.toLowerCase() === target.toLowerCase())
+      if (link) {
+        actions.openUrl(link.href)
+        return [success(t('shell.open.opening', { name: link.value }))]
+      }
+      const project = data.projects.find((p) => p.slug === target)
+      if (project) {
+        actions.navigate(projectPath(project))
+        return [success(t('shell.open.opening', { name: project.title }))]
+      }
+      return [warning(t('shell.open.missing', { target, targets: openTargets(data).join(', ') }))]
+    },
+    complete: (args, data) => (args.length === 0 ? openTargets(data) : []),
+  },
+
+  theme: {
+    usage: 'shell.theme.usage',
+    summary: 'shell.theme.summary',
+    run: ([name], _, actions, t) => {
+      if (!name) return [output(`theme: ${actions.theme()}`)]
+      if (name !== 'light' && name !== 'dark') return [warning(t('shell.theme.unknown', { name }))]
+      actions.setTheme(name)
+      return [success(`theme: ${name}`)]
+    },
+    complete: (args) => (args.length === 0 ? ['light', 'dark'] : []),
+  },
+
+  mail: {
+    usage: 'shell.mail.usage',
+    summary: 'shell.mail.summary',
+    run: (_, __, actions, t) => {
+      actions.startMail()
+      return [comment(t('shell.mail.start'))]
+    },
+  },
+
+  clear: {
+    usage: 'shell.clear.usage',
+    summary: 'shell.clear.summary',
+    run: (_, __, actions) => {
+      actions.clear()
+      return []
+    },
+  },
+}
+
+const tokenize = (input: string) => input.trim().split(/\s+/).filter(Boolean)
+
+// Own keys only, so `toString` and friends aren't commands
+const lookup = (name: string): Command | undefined =>
+  Object.prototype.hasOwnProperty.call(commands, name) ? commands[name] : undefined
+
+/** Runs one line of input and returns the lines to print under it, worded by `t`. */
+export function runCommand(input: string, data: ShellData, actions: ShellActions, t: Translate): TerminalLine[] {
+  const [name, ...args] = tokenize(input)
+  if (!name) return []
+  const command = lookup(name)
+  if (!command) return [warning(t('shell.notFound', { name }))]
+  return command.run(args, data, actions, t)
+}
+
+const commonPrefix = (words: string[]) =>
+  words.reduce((prefix, word) => {
+    let i = 0
+    while (i < prefix.length && prefix[i] === word[i]) i++
+    return prefix.slice(0, i)
+  })
+
+/**
+ * Tab completion. Extends the last word as far as every candidate agrees and
+ * returns the candidates when more than one remains.
+ */
+export function completeInput(input: string, data: ShellData): { input: string; options: string[] } {
+  const words = input.split(' ')
+  const partial = words[words.length - 1]
+  const before = words.slice(0, -1).filter(Boolean)
+
+  const candidates = before.length === 0 ? Object.keys(commands) : (lookup(before[0])?.complete?.(before.slice(1), data) ?? [])
+  const matches = candidates.filter((candidate) => candidate.startsWith(partial))
+  if (matches.length === 0) return { input, options: [] }
+
+  const completed = matches.length === 1 ? `${matches[0]}${matches[0].endsWith('/') ? '' : ' '}` : commonPrefix(matches)
+  return {
+    input: [...words.slice(0, -1), completed].join(' '),
+    options: matches.length > 1 ? matches : [],
+  }
+}
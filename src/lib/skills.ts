@@ -0,0 +1,63 @@
+import type { Experience, Project, Skill, ToolkitGroup } from '../content'
+
+/** How skill names are compared: `Content-as-Code` and `content as code` are the same name. */
+export const skillKey = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/[^a-z0-9+#]+/g, ' ')
+    .trim()
+
+export type SkillRegistry = {
+  /** The skill `name` is a name of, or `name` itself if no skill lists it */
+  resolve: (name: string) => string
+  /** Whether `a` and `b` name the same skill */
+  same: (a: string, b: string) => boolean
+  /** Whether `names` contains `name` under any of its names */
+  has: (names: readonly string[], name: string) => boolean
+}
+
+/** Resolves the names in `content/skills.yaml` to their skill. */
+export function createSkillRegistry(skills: readonly Skill[]): SkillRegistry {
+  const canonical = new Map<string, string>()
+  for (const skill of skills) {
+    for (const name of [skill.name, ...skill.aliases]) canonical.set(skillKey(name), skill.name)
+  }
+  const resolve = (name: string) => canonical.get(skillKey(name)) ?? name
+  const same = (a: string, b: string) => skillKey(resolve(a)) === skillKey(resolve(b))
+  return { resolve, same, has: (names, name) => names.some((other) => same(other, name)) }
+}
+
+export type SkillEvidence = {
+  projects: Project[]
+  roles: Experience[]
+  /** Toolkit cards that list the skill */
+  toolkit: ToolkitGroup[]
+}
+
+/** Everything on the home page that lists `skill`, under any of its names. */
+export function skillEvidence(
+  { projects, experiences, toolkit }: { projects: Project[]; experiences: Experience[]; toolkit: ToolkitGroup[] },
+  registry: SkillRegistry,
+  skill: string,
+): SkillEvidence {
+  return {
+    projects: projects.filter((project) => registry.has(project.tags, skill)),
+    roles: experiences.filter((role) => registry.has(role.technologies, skill)),
+    toolkit: toolkit.filter((group) => registry.has(group.items, skill)),
+  }
+}
+
+/**
+ * Whole years covered by `roles`, with current roles running to
+ * `currentYear`. Overlapping roles are only counted once.
+ */
+export function yearsOfUse(roles: readonly Pick<Experience, 'startYear' | 'endYear'>[], currentYear: number): number {
+  const spans = roles.map((role) => [role.startYear, role.endYear ?? currentYear] as const).sort((a, b) => a[0] - b[0])
+  let total = 0
+  let covered = -Infinity
+  for (const [start, end] of spans) {
+    total += Math.max(0, end - Math.max(start, covered))
+    covered = Math.max(covered, end)
+  }
+  return total
+}
@@ -0,0 +1,76 @@
+import type { ContactLink, Experience, Post, Project } from '../content'
+import { SITE_NAME, SITE_URL } from '../site'
+
+/** A schema.org object, embedded in the page as `<script type="application/ld+json">` */
+export type JsonLd = Record<string, unknown>
+
+const CONTEXT = 'https://schema.org'
+
+/** Identifies the site owner, so works on other pages can point at the `Person` on the home page */
+const PERSON_ID = `${SITE_URL}/#person`
+
+const author = { '@type': 'Person', '@id': PERSON_ID, name: SITE_NAME, url: `${SITE_URL}/` }
+
+/** `role` in schema.org's role pattern: a `type` of `OrganizationRole` whose `property` holds the organization */
+const organizationRole = (role: Experience, type: string, property: string) => ({
+  '@type': type,
+  roleName: role.title,
+  startDate: String(role.startYear),
+  ...(role.endYear !== undefined && { endDate: String(role.endYear) }),
+  [property]: { '@type': 'Organization', name: role.company },
+})
+
+/**
+ * The site owner: current job title and employer from the role without an end
+ * year, earlier employers under `alumniOf`, and the contact links that point
+ * off the site.
+ */
+export function personJsonLd({ experiences, contactLinks }: { experiences: Experience[]; contactLinks: ContactLink[] }): JsonLd {
+  const current = experiences.filter((role) => role.endYear === undefined)
+  const past = experiences.filter((role) => role.endYear !== undefined)
+  return {
+    '@context': CONTEXT,
+    ...author,
+    ...(current.length > 0 && { jobTitle: current[0].title }),
+    ...(current.length > 0 && { worksFor: current.map((role) => organizationRole(role, 'EmployeeRole', 'worksFor')) }),
+    ...(past.length > 0 && { alumniOf: past.map((role) => organizationRole(role, 'OrganizationRole', 'alumniOf')) }),
+    sameAs: contactLinks.map((link) => link.href).filter((href) => !href.startsWith(SITE_URL)),
+  }
+}
+
+/** The picture that best stands for a panel: its image, a carousel's first slide or a video's poster */
+const panelImage = (panel: Project['panel']) =>
+  panel.type === 'image' ? panel.src : panel.type === 'carousel' ? panel.slides[0].src : panel.type === 'video' ? panel.poster : undefined
+
+/**
+ * A project as a `CreativeWork`; `url` is its page. Panels without a picture
+ * of their own (diagrams, terminals) fall back to `card`, the absolute URL of
+ * the page's Open Graph image.
+ */
+export function projectJsonLd(project: Project, url: string, card: string): JsonLd {
+  return {
+    '@context': CONTEXT,
+    '@type': 'CreativeWork',
+    name: project.title,
+    description: project.description,
+    url,
+    keywords: project.tags.join(', '),
+    author,
+    image: panelImage(project.panel) ? SITE_URL + panelImage(project.panel) : card,
+  }
+}
+
+/** A post as a `BlogPosting`, the `CreativeWork` for articles; `url` is its page. */
+export function postJsonLd(post: Post, url: string): JsonLd {
+  return {
+    '@context': CONTEXT,
+    '@type': 'BlogPosting',
+    headline: post.title,
+    description: post.summary,
+    datePublished: post.date,
+    url,
+    keywords: post.tags.join(', '),
+    inLanguage: post.lang,
+    author,
+  }
+}
@@ -0,0 +1,15 @@
+import { theme } from './preferences'
+
+export type { Theme } from './preferences'
+
+/** The theme on the page right now. */
+export const getTheme = theme.get
+
+/** Switches theme and remembers the choice, so the OS setting stops applying. */
+export const setTheme = theme.set
+
+/**
+ * Calls `listener` whenever the theme changes, including when the OS color
+ * scheme changes and the visitor hasn't picked a theme. Returns an unsubscribe.
+ */
+export const subscribeTheme = theme.subscribe
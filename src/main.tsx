@@ -1,10 +1,21 @@
 import { StrictMode } from 'react'
-import { createRoot } from 'react-dom/client'
+import { createRoot, hydrateRoot } from 'react-dom/client'
 import './index.css'
 import App from './App'
+import { normalizePath } from './router'
 
-createRoot(document.getElementById('root')!).render(
+const root = document.getElementById('root')!
+const path = normalizePath(window.location.pathname)
+const app = (
   <StrictMode>
-    <App />
-  </StrictMode>,
+    <App path={path} />
+  </StrictMode>
 )
+
+// Prerendered pages carry the path they were rendered for. Anything else
+// (404.html serving an unknown path, or the dev server) renders from scratch.
+if (root.dataset.path === path) {
+  hydrateRoot(root, app)
+} else {
+  createRoot(root).render(app)
+}
@@ -0,0 +1,141 @@
+import { useEffect } from 'react'
+import { experiences, contactLinks, projects } from './content'
+import { matchRoute, projectPath } from './router'
+import { locales, localizePath, translate, type Locale } from './i18n'
+import { personJsonLd, postJsonLd, projectJsonLd, type JsonLd } from './lib/structuredData'
+import { SITE_NAME, SITE_URL } from './site'
+
+export type Alternate = {
+  hreflang: string
+  href: string
+}
+
+/** What a page's Open Graph image shows; plugins/prerender renders one PNG per page at build time. */
+export type SocialCard = {
+  /** Where the PNG is written, relative to the site root, e.g. `/og/projects/mtat/index.png` */
+  path: string
+  eyebrow: string
+  heading: string
+  tags: string[]
+}
+
+export type PageMeta = {
+  title: string
+  description: string
+  lang: Locale
+  /** The same page in every locale, for `<link rel="alternate" hreflang>` */
+  alternates: Alternate[]
+  /** Absolute URL of the page; absent on the not-found page, which has no URL of its own */
+  canonical?: string
+  /** `og:type` */
+  type: 'website' | 'article'
+  /** Absent on the not-found page */
+  card?: SocialCard
+  /** schema.org objects describing the page */
+  structuredData: JsonLd[]
+}
+
+/** Where the Open Graph image of the page at `pathname` (with its locale prefix) is written: `/es/projects/mtat/` gets `/og/es/projects/mtat/index.png`. */
+const cardPath = (pathname: string) => `/og${pathname.replace(/\/$/, '/index')}.png`
+
+/** Meta tags for the app path `path` (no locale prefix) in `locale`. */
+export function pageMeta(path: string, locale: Locale): PageMeta {
+  const route = matchRoute(path)
+  const t = (key: Parameters<typeof translate>[1]) => translate(locale, key)
+  if (route.name === 'not-found') {
+    return {
+      title: `${t('meta.notFound.title')} | ${SITE_NAME}`,
+      description: t('meta.notFound.description'),
+      lang: locale,
+      alternates: [],
+      type: 'website',
+      structuredData: [],
+    }
+  }
+
+  const pathname = localizePath(path, locale)
+  const canonical = SITE_URL + pathname
+  const page = { lang: locale, alternates: alternates(path), canonical }
+  const card = (eyebrow: string, heading: string, tags: string[]) => ({ path: cardPath(pathname), eyebrow, heading, tags })
+  const url = (appPath: string) => SITE_URL + localizePath(appPath, locale)
+  const cardUrl = (appPath: string) => SITE_URL + cardPath(localizePath(appPath, locale))
+
+  switch (route.name) {
+    case 'home':
+      return {
+        ...page,
+        title: t('meta.home.title'),
+        description: t('meta.home.description'),
+        type: 'website',
+        card: card(SITE_NAME.toUpperCase(), t('hero.title'), []),
+        structuredData: [
+          personJsonLd({ experiences, contactLinks }),
+          ...projects.map((project) => projectJsonLd(project, url(projectPath(project)), cardUrl(projectPath(project)))),
+        ],
+      }
+    case 'project':
+      return {
+        ...page,
+        title: `${route.project.title} | ${SITE_NAME}`,
+        description: route.project.description,
+        type: 'website',
+        card: card(t('projects.eyebrow'), route.project.title, route.project.tags),
+        structuredData: [projectJsonLd(route.project, canonical, cardUrl(path))],
+      }
+    case 'post':
+      return {
+        ...page,
+        title: `${route.post.title} | ${SITE_NAME}`,
+        description: route.post.summary,
+        type: 'article',
+        card: card(t('writing.eyebrow'), route.post.title, route.post.tags),
+        structuredData: [postJsonLd(route.post, canonical)],
+      }
+  }
+}
+
+function alternates(path: string): Alternate[] {
+  const href = (locale: Locale) => SITE_URL + localizePath(path, locale)
+  return [...locales.map((locale) => ({ hreflang: locale, href: href(locale) })), { hreflang: 'x-default', href: href('en') }]
+}
+
+/**
+ * Keeps `<title>`, the description, `<html lang>`, the canonical link and the
+ * hreflang links in sync after client-side navigation. Memoize `meta`; the
+ * links are replaced whenever `alternates` changes identity. Open Graph tags
+ * and structured data are only read by crawlers, which get the prerendered
+ * page, so they're left as they are.
+ */
+export function useDocumentMeta({ title, description, lang, alternates, canonical }: PageMeta) {
+  useEffect(() => {
+    document.title = title
+    document.documentElement.lang = lang
+    let tag = document.querySelector<HTMLMetaElement>('meta[name="description"]')
+    if (!tag) {
+      tag = document.createElement('meta')
+      tag.name = 'description'
+      document.head.appendChild(tag)
+    }
+    tag.content = description
+  }, [title, description, lang])
+
+  useEffect(() => {
+    document.querySelector('link[rel="canonical"]')?.remove()
+    if (!canonical) return
+    const link = document.createElement('link')
+    link.rel = 'canonical'
+    link.href = canonical
+    document.head.appendChild(link)
+  }, [canonical])
+
+  useEffect(() => {
+    document.querySelectorAll('link[rel="alternate"][hreflang]').forEach((link) => link.remove())
+    for (const { hreflang, href } of alternates) {
+      const link = document.createElement('link')
+      link.rel = 'alternate'
+      link.hreflang = hreflang
+      link.href = href
+      document.head.appendChild(link)
+    }
+  }, [alternates])
+}
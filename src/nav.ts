@@ -0,0 +1,17 @@
+import { posts } from './content'
+
+const sections = [
+  { id: 'about', label: 'About', href: '/#about' },
+  { id: 'experience', label: 'Experience', href: '/#experience' },
+  { id: 'toolkit', label: 'Toolkit', href: '/#toolkit' },
+  { id: 'projects', label: 'Projects', href: '/#projects' },
+  { id: 'writing', label: 'Writing', href: '/#writing' },
+  { id: 'contact', label: 'Contact', href: '/#contact' },
+] as const
+
+/**
+ * Home page sections, in page order; each `id` is the section element's id
+ * and, as `nav.<id>`, the message key of its translated label. Writing is
+ * left out until `content/writing/` has a post.
+ */
+export const navItems = sections.filter((item) => item.id !== 'writing' || posts.length > 0)
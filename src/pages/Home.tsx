@@ -0,0 +1,24 @@
+import { posts } from '../content'
+import Hero from '../sections/Hero'
+import About from '../sections/About'
+import Experience from '../sections/Experience'
+import Toolkit from '../sections/Toolkit'
+import Projects from '../sections/Projects'
+import Writing from '../sections/Writing'
+import Contact from '../sections/Contact'
+import TagFilterBar from '../components/TagFilterBar'
+
+export default function Home() {
+  return (
+    <>
+      <Hero />
+      <About />
+      <Experience />
+      <Toolkit />
+      <Projects />
+      {posts.length > 0 && <Writing />}
+      <Contact />
+      <TagFilterBar />
+    </>
+  )
+}
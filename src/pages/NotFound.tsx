@@ -0,0 +1,24 @@
+import { ArrowLeft } from 'lucide-react'
+import { useT } from '../hooks/useT'
+import { Link } from '../router'
+
+export default function NotFound() {
+  const t = useT()
+  return (
+    <div className="relative min-h-screen flex flex-col items-center justify-center grid-pattern px-4 text-center">
+      <div className="font-mono text-xs text-accent tracking-widest mb-4">{t('notFound.eyebrow')}</div>
+      <h1 className="font-mono text-3xl md:text-4xl font-bold mb-4 text-heading">
+        {t('notFound.title')} <span className="text-accent">{t('notFound.titleAccent')}</span>
+      </h1>
+      <p className="text-body max-w-md mb-8">
+        {t('notFound.body')}
+      </p>
+      <Link
+        to="/"
+        className="inline-flex items-center gap-2 px-6 py-3 border border-accent/60 hover:border-accent text-xs font-mono tracking-wider transition-all duration-300 text-strong hover:text-accent-contrast hover:bg-accent"
+      >
+        <ArrowLeft className="w-3 h-3" /> {t('notFound.back')}
+      </Link>
+    </div>
+  )
+}
@@ -0,0 +1,49 @@
+import { ArrowLeft } from 'lucide-react'
+import type { Post } from '../content'
+import Reveal from '../components/Reveal'
+import { useT } from '../hooks/useT'
+import { formatDate, localizePath } from '../i18n'
+import { useLocale } from '../router'
+
+export default function PostPage({ post }: { post: Post }) {
+  const t = useT()
+  const locale = useLocale()
+
+  return (
+    <div className="relative pt-32 pb-24 md:pb-32 bg-canvas">
+      <article className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8">
+        <a
+          href={localizePath('/#writing', locale)}
+          className="inline-flex items-center gap-2 font-mono text-xs tracking-wider text-muted hover:text-accent transition-colors mb-10"
+        >
+          <ArrowLeft className="w-3 h-3" /> {t('post.back')}
+        </a>
+
+        {/* Header */}
+        <Reveal as="header" className="mb-12">
+          <div className="flex items-center gap-4 mb-6">
+            <div className="w-8 h-px bg-accent" />
+            <time dateTime={post.date} className="font-mono text-xs text-accent tracking-wider">
+              {t('post.published', { date: formatDate(post.date, locale) })}
+            </time>
+          </div>
+          <h1 lang={post.lang} className="font-mono text-3xl md:text-4xl font-bold mb-4 leading-tight text-heading">
+            {post.title}
+          </h1>
+          <p lang={post.lang} className="text-body mb-6">{post.summary}</p>
+
+          <div className="flex flex-wrap gap-2">
+            {post.tags.map((tag) => (
+              <span key={tag} className="px-2 py-1 text-xs font-mono bg-surface-sunken text-body border border-line rounded">
+                {tag}
+              </span>
+            ))}
+          </div>
+        </Reveal>
+
+        {/* Body, rendered from the post's Markdown at build time, in the post's own language */}
+        <Reveal lang={post.lang} className="writeup" dangerouslySetInnerHTML={{ __html: post.body }} />
+      </article>
+    </div>
+  )
+}
@@ -0,0 +1,76 @@
+import { ArrowLeft, Github } from 'lucide-react'
+import type { Project } from '../content'
+import ProjectPanel from '../components/ProjectPanel'
+import CaseStudy from '../components/CaseStudy'
+import LiveDemoLink from '../components/LiveDemoLink'
+import Reveal from '../components/Reveal'
+import { useT } from '../hooks/useT'
+import { useContentLang } from '../hooks/useContentLang'
+import { track } from '../lib/analytics'
+import { localizePath } from '../i18n'
+import { useLocale } from '../router'
+
+export default function ProjectPage({ project }: { project: Project }) {
+  const t = useT()
+  const lang = useContentLang()
+  const locale = useLocale()
+  return (
+    <div className="relative pt-32 pb-24 md:pb-32 bg-canvas">
+      <article className={`${project.caseStudy ? 'max-w-5xl' : 'max-w-3xl'} mx-auto px-4 sm:px-6 lg:px-8`}>
+        <a
+          href={localizePath('/#projects', locale)}
+          className="inline-flex items-center gap-2 font-mono text-xs tracking-wider text-muted hover:text-accent transition-colors mb-10"
+        >
+          <ArrowLeft className="w-3 h-3" /> {t('project.back')}
+        </a>
+
+        {/* Header */}
+        <Reveal as="header" className="max-w-3xl mb-10">
+          <div className="flex items-center gap-4 mb-6">
+            <div className="w-8 h-px bg-accent" />
+            <span lang={lang} className="font-mono text-xs text-accent tracking-wider">{project.badge}</span>
+          </div>
+          <h1 lang={lang} className="font-mono text-3xl md:text-4xl font-bold mb-4 leading-tight text-heading">
+            {project.title}
+          </h1>
+          <p lang={lang} className="text-body mb-6">{project.description}</p>
+
+          <div className="flex flex-wrap items-center gap-3 mb-6">
+            <a
+              href={project.github}
+              target="_blank"
+              rel="noopener noreferrer"
+              onClick={() => track('project_link_click', { project: project.slug, kind: 'github' })}
+              className="inline-flex items-center gap-2 font-mono text-xs tracking-wider text-accent hover:text-accent/80 transition-colors border border-accent/40 hover:border-accent px-4 py-2 rounded"
+            >
+              <Github className="w-3 h-3" /> {t('project.github')}
+            </a>
+            <LiveDemoLink
+              project={project}
+              className="inline-flex items-center gap-2 font-mono text-xs tracking-wider text-accent hover:text-accent/80 transition-colors border border-accent/40 hover:border-accent px-4 py-2 rounded"
+            />
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            {project.tags.map((tag) => (
+              <span key={tag} className="px-2 py-1 text-xs font-mono bg-surface-sunken text-body border border-line rounded">
+                {tag}
+              </span>
+            ))}
+          </div>
+        </Reveal>
+
+        <Reveal className="max-w-3xl mb-12">
+          <ProjectPanel panel={project.panel} sizes="(min-width: 768px) 768px, 100vw" />
+        </Reveal>
+
+        {project.caseStudy ? (
+          <CaseStudy project={project} />
+        ) : (
+          // Write-up, rendered from the project's Markdown at build time
+          <Reveal lang={lang} className="writeup" dangerouslySetInnerHTML={{ __html: project.writeup }} />
+        )}
+      </article>
+    </div>
+  )
+}
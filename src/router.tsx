@@ -0,0 +1,201 @@
+import { createContext, useContext, useEffect, useRef, useState, type AnchorHTMLAttributes, type MouseEvent, type ReactNode } from 'react'
+import { posts, projects, type Post, type Project } from './content'
+import { localizePath, locales, splitLocale, type Locale } from './i18n'
+import { jumpToHash } from './lib/anchors'
+
+export type Route =
+  | { name: 'home' }
+  | { name: 'project'; project: Project }
+  | { name: 'post'; post: Post }
+  | { name: 'not-found' }
+
+export const projectPath = (project: Pick<Project, 'slug'>) => `/projects/${project.slug}`
+
+export const postPath = (post: Pick<Post, 'slug'>) => `/writing/${post.slug}`
+
+/** Every path prerendered to static HTML at build time, in every locale. */
+export const staticPaths = locales.flatMap((locale) =>
+  ['/', ...projects.map(projectPath), ...posts.map(postPath)].map((path) => normalizePath(localizePath(path, locale)))
+)
+
+/** Strips trailing slashes so `/projects/mtat/` and `/projects/mtat` match. */
+export function normalizePath(pathname: string): string {
+  return pathname.replace(/\/+$/, '') || '/'
+}
+
+/** The route for `pathname`, with or without a locale prefix. */
+export function matchRoute(pathname: string): Route {
+  const { path } = splitLocale(normalizePath(pathname))
+  if (path === '/') return { name: 'home' }
+
+  const slug = /^\/projects\/([^/]+)$/.exec(path)?.[1]
+  const project = slug && projects.find((p) => p.slug === slug)
+  if (project) return { name: 'project', project }
+
+  const postSlug = /^\/writing\/([^/]+)$/.exec(path)?.[1]
+  const post = postSlug && posts.find((p) => p.slug === postSlug)
+  if (post) return { name: 'post', post }
+
+  return { name: 'not-found' }
+}
+
+type RouterState = {
+  pathname: string
+  /** Query string of the current URL, including the leading `?` */
+  search: string
+  navigate: (to: string) => void
+  setSearch: (search: string) => void
+}
+
+const RouterContext = createContext<RouterState | null>(null)
+
+/** What each history entry remembers, so going back or forward returns to the same spot */
+type HistoryState = { scrollY?: number } | null
+
+/** Where to scroll once the page for a new location has rendered */
+type ScrollTarget = { top: number } | { hash: string }
+
+/** How long scrolling must pause before the position is saved to the history entry */
+const SAVE_SCROLL_DELAY = 150
+
+const saveScroll = () => window.history.replaceState({ ...(window.history.state as HistoryState), scrollY: window.scrollY }, '')
+
+export function Router({ initialPath, children }: { initialPath: string; children: ReactNode }) {
+  const [pathname, setPathname] = useState(() => normalizePath(initialPath))
+  // Prerendered HTML has no query string, so it's read after hydration
+  const [search, setSearchState] = useState('')
+  const [scrollTarget, setScrollTarget] = useState<ScrollTarget | null>(null)
+  const pathnameRef = useRef(pathname)
+
+  useEffect(() => {
+    // The browser would restore the position before the entry's page has rendered
+    window.history.scrollRestoration = 'manual'
+
+    const sync = () => {
+      pathnameRef.current = normalizePath(window.location.pathname)
+      setPathname(pathnameRef.current)
+      setSearchState(window.location.search)
+    }
+    sync()
+    // Deep links like /#projects: the browser jumped before the page was ready (or, in dev, rendered)
+    if (window.location.hash) setScrollTarget({ hash: window.location.hash })
+
+    const onPopState = () => {
+      const samePage = normalizePath(window.location.pathname) === pathnameRef.current
+      sync()
+      const { scrollY } = (window.history.state as HistoryState) ?? {}
+      if (scrollY !== undefined) setScrollTarget({ top: scrollY })
+      else if (!samePage) setScrollTarget(window.location.hash ? { hash: window.location.hash } : { top: 0 })
+      // Otherwise it's a new in-page `#section` entry, which the browser scrolls to itself
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined
+    const onScroll = () => {
+      clearTimeout(timer)
+      timer = setTimeout(saveScroll, SAVE_SCROLL_DELAY)
+    }
+
+    window.addEventListener('popstate', onPopState)
+    window.addEventListener('scroll', onScroll, { passive: true })
+    return () => {
+      clearTimeout(timer)
+      window.removeEventListener('popstate', onPopState)
+      window.removeEventListener('scroll', onScroll)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!scrollTarget) return
+    if ('hash' in scrollTarget) jumpToHash(scrollTarget.hash)
+    else window.scrollTo({ top: scrollTarget.top, behavior: 'instant' })
+  }, [scrollTarget])
+
+  const navigate = (to: string) => {
+    saveScroll()
+    window.history.pushState(null, '', to)
+    const url = new URL(to, window.location.href)
+    pathnameRef.current = normalizePath(url.pathname)
+    setPathname(pathnameRef.current)
+    setSearchState(url.search)
+    if (url.hash) setScrollTarget({ hash: url.hash })
+    else window.scrollTo({ top: 0, behavior: 'instant' })
+  }
+
+  /** Replaces the query string in place: no history entry, no scroll, hash kept. */
+  const setSearch = (next: string) => {
+    const url = new URL(window.location.href)
+    url.search = next
+    window.history.replaceState(window.history.state, '', url)
+    setSearchState(url.search)
+  }
+
+  return <RouterContext.Provider value={{ pathname, search, navigate, setSearch }}>{children}</RouterContext.Provider>
+}
+
+function useRouter(): RouterState {
+  const router = useContext(RouterContext)
+  if (!router) throw new Error('useRouter must be used inside <Router>')
+  return router
+}
+
+/** The current path without its locale prefix. */
+export function usePathname(): string {
+  return splitLocale(useRouter().pathname).path
+}
+
+/** The locale of the current URL. */
+export function useLocale(): Locale {
+  return splitLocale(useRouter().pathname).locale
+}
+
+/** Programmatic navigation to an app path, staying in the current locale; for places a `<Link>` doesn't fit. */
+export function useNavigate(): (to: string) => void {
+  const { navigate } = useRouter()
+  const locale = useLocale()
+  return (to: string) => navigate(localizePath(to, locale))
+}
+
+/**
+ * One query string parameter of the current URL and a setter for it. Setting
+ * `null` removes the parameter; other parameters are left alone.
+ */
+export function useSearchParam(name: string): [string | null, (value: string | null) => void] {
+  const { search, setSearch } = useRouter()
+  const value = new URLSearchParams(search).get(name)
+
+  const setValue = (next: string | null) => {
+    const params = new URLSearchParams(window.location.search)
+    if (next === null) params.delete(name)
+    else params.set(name, next)
+    setSearch(params.toString())
+  }
+
+  return [value, setValue]
+}
+
+export function useRoute(): Route {
+  return matchRoute(useRouter().pathname)
+}
+
+type LinkProps = Omit<AnchorHTMLAttributes<HTMLAnchorElement>, 'href'> & {
+  /** App path, without a locale prefix */
+  to: string
+  /** Defaults to the current locale */
+  locale?: Locale
+}
+
+/** In-app link: navigates without a page load, falls back to a normal `<a>` for modified clicks. */
+export function Link({ to, locale, onClick, ...props }: LinkProps) {
+  const { navigate } = useRouter()
+  const current = useLocale()
+  const href = localizePath(to, locale ?? current)
+
+  const handleClick = (e: MouseEvent<HTMLAnchorElement>) => {
+    onClick?.(e)
+    if (e.defaultPrevented || e.button !== 0 || e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) return
+    e.preventDefault()
+    navigate(href)
+  }
+
+  return <a href={href} onClick={handleClick} {...props} />
+}
@@ -1,18 +1,52 @@
+import { useEffect, useState } from 'react'
+import { blockedByBrowser, consent } from '../lib/analytics'
+import { usePreference } from '../hooks/usePreference'
+import { useT } from '../hooks/useT'
+
+/** Opts out of (or back into) the anonymous click counts in src/lib/analytics.ts. */
+function AnalyticsToggle() {
+  const t = useT()
+  const [value, setValue] = usePreference(consent, 'on')
+  // Read after mount so the prerendered markup doesn't depend on the browser
+  const [blocked, setBlocked] = useState(false)
+  useEffect(() => setBlocked(blockedByBrowser()), [])
+
+  return (
+    <button
+      type="button"
+      onClick={() => setValue(value === 'on' ? 'off' : 'on')}
+      aria-pressed={value === 'on'}
+      disabled={blocked}
+      title={blocked ? t('footer.analyticsBlocked') : undefined}
+      className="font-mono text-xs text-faint hover:text-accent disabled:hover:text-faint transition-colors"
+    >
+      {t('footer.analytics')}{' '}
+      <span aria-hidden="true" className={value === 'on' ? 'text-accent' : ''}>
+        {value === 'on' ? t('footer.analyticsOn') : t('footer.analyticsOff')}
+      </span>
+    </button>
+  )
+}
+
 export default function Footer() {
+  const t = useT()
   return (
-    <footer className="border-t border-slate-200 py-8 bg-cream-100">
+    <footer className="border-t border-line py-8 bg-canvas">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
         <div className="flex flex-col sm:flex-row items-center justify-between gap-4">
-          <div className="font-mono text-sm font-bold text-slate-900">COLEEN STANLEY</div>
-          <div className="font-mono text-xs text-slate-400">
-            DESIGNED & BUILT WITH{' '}
-            <span className="text-rose">♥</span>
-            {' '}& CHAI
+          <div className="font-mono text-sm font-bold text-heading">COLEEN STANLEY</div>
+          <div className="font-mono text-xs text-faint">
+            {t('footer.builtWith')}{' '}
+            <span className="text-accent">♥</span>
+            {' '}{t('footer.builtWithEnd')}
           </div>
-          <div className="font-mono text-xs text-slate-400">
-            © {new Date().getFullYear()} ALL RIGHTS RESERVED
+          <div className="font-mono text-xs text-faint">
+            {t('footer.rights', { year: new Date().getFullYear() })}
           </div>
         </div>
+        <div className="mt-4 text-center sm:text-right">
+          <AnalyticsToggle />
+        </div>
       </div>
     </footer>
   )
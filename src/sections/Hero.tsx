@@ -1,6 +1,8 @@
 import { MapPin, GraduationCap, BookOpen, ChevronDown } from 'lucide-react'
+import { useT } from '../hooks/useT'
 
 export default function Hero() {
+  const t = useT()
   const scrollToAbout = () => {
     document.getElementById('about')?.scrollIntoView({ behavior: 'smooth' })
   }
@@ -8,61 +10,61 @@ export default function Hero() {
   return (
     <section className="relative min-h-screen flex flex-col items-center justify-center grid-pattern">
       {/* Gradient overlay */}
-      <div className="absolute inset-0 bg-gradient-to-b from-cream-100/60 via-transparent to-cream-100/80 pointer-events-none" />
+      <div className="absolute inset-0 bg-gradient-to-b from-canvas/60 via-transparent to-canvas/80 pointer-events-none" />
 
       <div className="relative z-10 text-center px-4 max-w-4xl mx-auto">
         {/* Name */}
-        <h1 className="font-mono text-4xl sm:text-5xl md:text-6xl lg:text-7xl font-bold tracking-tight mb-4 text-slate-950 glitch-hover">
+        <h1 className="font-mono text-4xl sm:text-5xl md:text-6xl lg:text-7xl font-bold tracking-tight mb-4 text-heading glitch-hover">
           COLEEN STANLEY
         </h1>
 
         {/* Title */}
-        <div className="font-mono text-sm sm:text-base md:text-lg text-rose tracking-widest mb-2">
-          TECHNICAL LEARNING SYSTEMS ARCHITECT
+        <div className="font-mono text-sm sm:text-base md:text-lg text-accent tracking-widest mb-2">
+          {t('hero.title')}
         </div>
 
         {/* Certifications */}
-        <div className="text-xs sm:text-sm text-slate-600 max-w-lg mx-auto mt-4">
-          AWS Cloud Certified | Cisco AI Certified | Splunk Observability Certified
+        <div className="text-xs sm:text-sm text-body max-w-lg mx-auto mt-4">
+          {t('hero.certifications')}
           <br />
-          Bridging the gap between Engineering and Education
+          {t('hero.tagline')}
         </div>
 
         {/* CTA */}
         <button
           onClick={scrollToAbout}
-          className="mt-8 px-6 py-3 border border-rose/60 hover:border-rose text-xs font-mono tracking-wider transition-all duration-300 text-slate-800 hover:text-white hover:bg-rose"
+          className="mt-8 px-6 py-3 border border-accent/60 hover:border-accent text-xs font-mono tracking-wider transition-all duration-300 text-strong hover:text-accent-contrast hover:bg-accent"
         >
-          EXPLORE SYSTEM
+          {t('hero.cta')}
         </button>
       </div>
 
       {/* Decorative dots */}
-      <div className="absolute top-1/4 left-1/4 w-1.5 h-1.5 bg-rose/50 rounded-full opacity-60 animate-pulse" />
-      <div className="absolute top-1/3 right-1/3 w-1 h-1 bg-rose/40 rounded-full opacity-40 animate-pulse" style={{ animationDelay: "0.5s" }} />
-      <div className="absolute bottom-1/3 left-1/3 w-1 h-1 bg-rose/45 rounded-full opacity-50 animate-pulse" style={{ animationDelay: "1s" }} />
+      <div className="absolute top-1/4 left-1/4 w-1.5 h-1.5 bg-accent/50 rounded-full opacity-60 animate-pulse" />
+      <div className="absolute top-1/3 right-1/3 w-1 h-1 bg-accent/40 rounded-full opacity-40 animate-pulse" style={{ animationDelay: "0.5s" }} />
+      <div className="absolute bottom-1/3 left-1/3 w-1 h-1 bg-accent/45 rounded-full opacity-50 animate-pulse" style={{ animationDelay: "1s" }} />
 
       {/* Status bar */}
-      <div className="absolute bottom-0 left-0 right-0 border-t border-slate-200">
+      <div className="absolute bottom-0 left-0 right-0 border-t border-line">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
           <div className="flex flex-wrap items-center justify-between gap-4 text-xs font-mono">
-            <div className="flex items-center gap-2 text-slate-500">
+            <div className="flex items-center gap-2 text-muted">
               <MapPin className="w-3 h-3" />
-              <span>ATLANTA, GA</span>
+              <span>{t('hero.location')}</span>
             </div>
-            <div className="flex items-center gap-2 text-slate-500">
+            <div className="flex items-center gap-2 text-muted">
               <GraduationCap className="w-3 h-3" />
-              <span>B.S. Computer Science</span>
+              <span>{t('hero.degree')}</span>
             </div>
             <div className="flex items-center gap-2">
-              <BookOpen className="w-3 h-3 text-rose" />
-              <span className="text-slate-600">M.Ed. Instructional Design</span>
+              <BookOpen className="w-3 h-3 text-accent" />
+              <span className="text-body">{t('hero.masters')}</span>
             </div>
             <button
               onClick={scrollToAbout}
-              className="flex items-center gap-2 text-slate-500 hover:text-slate-800 transition-colors"
+              className="flex items-center gap-2 text-muted hover:text-strong transition-colors"
             >
-              <span>[SCROLL TO EXPLORE]</span>
+              <span>{t('hero.scroll')}</span>
               <ChevronDown className="w-3 h-3 animate-bounce" />
             </button>
           </div>
@@ -1,36 +1,104 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
+import { useT } from '../hooks/useT'
+import { firstScreenImagesDecoded, fontsReady } from '../lib/readiness'
 
+/** sessionStorage key; index.html hides the screen before first paint once it is set */
+const SEEN_KEY = 'loading-screen'
+
+/** Give up waiting after this long, in milliseconds, so a stalled font request can't hold the page */
+const MAX_WAIT = 4000
+
+/** Length of the fade-out in `duration-500` */
+const FADE_OUT = 500
+
+/** Hydration, fonts and first-screen images */
+const STEPS = 3
+
+type Phase = 'loading' | 'leaving' | 'gone'
+
+const remember = () => {
+  try {
+    sessionStorage.setItem(SEEN_KEY, 'seen')
+  } catch {
+    // ignore
+  }
+}
+
+/**
+ * Covers the page while the app starts, tracking real work: hydration (this
+ * effect running), the fonts and the images in the first screenful. It is
+ * prerendered but only fades in when that work takes longer than the delay
+ * on `.loading-screen` in index.css, is skipped for the rest of the session
+ * once it has finished, and any key or click dismisses it.
+ */
 export default function LoadingScreen() {
-  const [progress, setProgress] = useState(0)
-  const [visible, setVisible] = useState(true)
+  const t = useT()
+  const [done, setDone] = useState(0)
+  const [phase, setPhase] = useState<Phase>('loading')
+  const screenRef = useRef<HTMLDivElement>(null)
+  const dismissRef = useRef<() => void>(() => {})
 
   useEffect(() => {
-    const interval = setInterval(() => {
-      setProgress((prev) => {
-        if (prev >= 100) {
-          clearInterval(interval)
-          setTimeout(() => setVisible(false), 400)
-          return 100
-        }
-        return prev + Math.random() * 15
-      })
-    }, 100)
-    return () => clearInterval(interval)
+    if (document.documentElement.hasAttribute('data-returning')) {
+      setPhase('gone')
+      return
+    }
+
+    let finished = false
+    let fadeTimer: ReturnType<typeof setTimeout> | undefined
+    const finish = () => {
+      if (finished) return
+      finished = true
+      remember()
+      document.removeEventListener('keydown', finish)
+      // Never shown: nothing to fade
+      if (screenRef.current && getComputedStyle(screenRef.current).visibility === 'hidden') {
+        setPhase('gone')
+        return
+      }
+      setPhase('leaving')
+      fadeTimer = setTimeout(() => setPhase('gone'), FADE_OUT)
+    }
+
+    const step = () => {
+      if (!finished) setDone((prev) => prev + 1)
+    }
+    // Hydration is done by the time this effect runs
+    setDone(1)
+    const work = [fontsReady(), firstScreenImagesDecoded()].map((promise) => promise.then(step))
+    void Promise.all(work).then(finish)
+    const timeout = setTimeout(finish, MAX_WAIT)
+    dismissRef.current = finish
+
+    document.addEventListener('keydown', finish)
+    return () => {
+      // A remount (StrictMode) starts over without finishing, and stale steps stop counting
+      finished = true
+      clearTimeout(timeout)
+      clearTimeout(fadeTimer)
+      document.removeEventListener('keydown', finish)
+    }
   }, [])
 
-  if (!visible) return null
+  if (phase === 'gone') return null
+
+  const progress = Math.round((Math.min(done, STEPS) / STEPS) * 100)
 
   return (
-    <div className={`fixed inset-0 z-[10000] bg-slate-950 flex items-center justify-center transition-opacity duration-500 ${progress >= 100 ? 'opacity-0' : 'opacity-100'}`}>
-      <div className="text-center">
-        <div className="font-mono text-rose text-xs tracking-widest mb-6">INITIALIZING SYSTEM</div>
-        <div className="w-48 h-px bg-slate-800 mx-auto mb-2">
-          <div
-            className="h-full bg-rose transition-all duration-100"
-            style={{ width: `${Math.min(progress, 100)}%` }}
-          />
+    // Decorative: it only covers the page while the app starts
+    <div ref={screenRef} aria-hidden="true" className="loading-screen">
+      <div
+        onClick={() => dismissRef.current()}
+        className={`fixed inset-0 z-[10000] bg-slate-950 flex items-center justify-center transition-opacity duration-500 ${phase === 'leaving' ? 'opacity-0' : 'opacity-100'}`}
+      >
+        <div className="text-center">
+          <div className="font-mono text-accent text-xs tracking-widest mb-6">{t('loading.status')}</div>
+          <div className="w-48 h-px bg-slate-800 mx-auto mb-2">
+            <div className="h-full bg-accent transition-all duration-300" style={{ width: `${progress}%` }} />
+          </div>
+          <div className="font-mono text-slate-500 text-xs">{progress}%</div>
+          <div className="mt-6 font-mono text-slate-600 text-[10px] tracking-widest">{t('loading.skip')}</div>
         </div>
-        <div className="font-mono text-slate-500 text-xs">{Math.min(Math.round(progress), 100)}%</div>
       </div>
     </div>
   )
@@ -1,88 +1,100 @@
-import { Code2, Cloud, BookOpen } from 'lucide-react'
+import { useState } from 'react'
+import { ChevronDown } from 'lucide-react'
+import { toolkit, type Accent } from '../content'
+import Icon from '../components/Icon'
+import { skillAnchor } from '../lib/anchors'
+import { useT } from '../hooks/useT'
+import { useContentLang } from '../hooks/useContentLang'
+import { useTagFilter } from '../hooks/useTagFilter'
+import TagChip from '../components/TagChip'
+import SkillMatrix from '../components/SkillMatrix'
+import Reveal from '../components/Reveal'
 
-const toolkit = [
-  {
-    icon: Code2,
-    title: 'ENGINEERING',
-    items: ['Bash/Zsh', 'Python', 'Boto3 (AWS SDK)', 'Docker', 'CI/CD', 'GitHub/GitLab', 'REST APIs'],
-    color: 'text-blue-600',
-  },
-  {
-    icon: Cloud,
-    title: 'AWS SERVICES',
-    items: ['S3', 'Lambda', 'DynamoDB', 'API Gateway', 'IAM', 'VPC', 'CloudFormation'],
-    color: 'text-rose',
-  },
-  {
-    icon: BookOpen,
-    title: 'INSTRUCTIONAL AUTHORING',
-    items: ['Xyleme Create (LCMS)', 'Rise/Storyline', 'Camtasia/Snagit', 'HTML/CSS', 'DITA', 'Markdown'],
-    color: 'text-amber-600',
-  },
-]
+const MATRIX_ID = 'skill-evidence'
+
+const accentClasses: Record<Accent, string> = {
+  blue: 'text-info',
+  rose: 'text-accent',
+  amber: 'text-warning',
+}
 
 export default function Toolkit() {
+  const t = useT()
+  const lang = useContentLang()
+  const filter = useTagFilter()
+  const [showEvidence, setShowEvidence] = useState(false)
   return (
-    <section id="toolkit" className="relative py-24 md:py-32 bg-cream-100">
+    <section id="toolkit" className="relative py-24 md:py-32 bg-canvas">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
         {/* Header */}
-        <div className="text-center mb-16 reveal-section">
+        <Reveal className="text-center mb-16">
           <div className="flex items-center justify-center gap-4 mb-6">
-            <div className="w-8 h-px bg-rose" />
-            <span className="font-mono text-xs text-rose tracking-wider">THE TOOLKIT</span>
-            <div className="w-8 h-px bg-rose" />
+            <div className="w-8 h-px bg-accent" />
+            <span className="font-mono text-xs text-accent tracking-wider">{t('toolkit.eyebrow')}</span>
+            <div className="w-8 h-px bg-accent" />
           </div>
-          <h2 className="font-mono text-3xl md:text-4xl font-bold mb-4 text-slate-900">
-            Technical <span className="text-rose">Expertise</span>
+          <h2 className="font-mono text-3xl md:text-4xl font-bold mb-4 text-heading">
+            {t('toolkit.title')} <span className="text-accent">{t('toolkit.titleAccent')}</span>
           </h2>
-          <p className="text-slate-600 max-w-2xl mx-auto">
-            I don't just use tools — I architect the right toolkit for the challenge. From Python automation and AWS Boto3 to enterprise LCMS platforms, every choice is deliberate, modular, and built to scale.
+          <p className="text-body max-w-2xl mx-auto">
+            {t('toolkit.intro')}
           </p>
-        </div>
+        </Reveal>
 
         {/* Cards */}
-        <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-6 stagger-cards">
+        <Reveal stagger className="grid sm:grid-cols-2 lg:grid-cols-3 gap-6">
           {toolkit.map((item, i) => (
             <div
               key={i}
-              className="stagger-card group relative p-6 border border-slate-200 hover:border-rose/40 transition-all duration-300 card-lift bg-white rounded-lg shadow-sm"
+              className={`group relative p-6 border transition-all duration-300 card-lift bg-surface rounded-lg shadow-sm ${
+                filter.matches(item.items) ? 'border-accent ring-2 ring-accent/30' : filter.tag ? 'tag-dimmed border-line' : 'border-line hover:border-accent/40'
+              }`}
             >
               {/* Corner accent */}
               <div className="absolute top-0 right-0 w-8 h-8">
-                <div className="absolute top-0 right-0 w-4 h-px bg-slate-200 group-hover:bg-rose/50 transition-colors" />
-                <div className="absolute top-0 right-0 w-px h-4 bg-slate-200 group-hover:bg-rose/50 transition-colors" />
+                <div className="absolute top-0 right-0 w-4 h-px bg-line group-hover:bg-accent/50 transition-colors" />
+                <div className="absolute top-0 right-0 w-px h-4 bg-line group-hover:bg-accent/50 transition-colors" />
               </div>
 
               <div className="mb-4">
-                <item.icon className={`w-8 h-8 ${item.color} group-hover:scale-110 transition-transform`} />
+                <Icon name={item.icon} className={`w-8 h-8 ${accentClasses[item.accent]} group-hover:scale-110 transition-transform`} />
               </div>
 
-              <h3 className="font-mono text-sm font-semibold mb-4 tracking-wider text-slate-800">{item.title}</h3>
+              <h3 lang={lang} className="font-mono text-sm font-semibold mb-4 tracking-wider text-strong">{item.title}</h3>
 
               <div className="flex flex-wrap gap-2">
                 {item.items.map((skill, j) => (
-                  <span
-                    key={j}
-                    className="px-2 py-1 text-xs font-mono bg-slate-100 text-slate-600 border border-slate-200 group-hover:border-rose/20 transition-colors rounded"
-                  >
-                    {skill}
-                  </span>
+                  <TagChip key={j} tag={skill} id={skillAnchor(item, skill)} className="group-hover:border-accent/20" />
                 ))}
               </div>
 
               {/* Hover gradient */}
               <div className="absolute inset-0 opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none rounded-lg">
-                <div className="absolute inset-0 bg-gradient-to-br from-rose/5 to-transparent rounded-lg" />
+                <div className="absolute inset-0 bg-gradient-to-br from-accent/5 to-transparent rounded-lg" />
               </div>
             </div>
           ))}
+        </Reveal>
+
+        <div className="mt-8 text-center">
+          <button
+            type="button"
+            onClick={() => setShowEvidence(!showEvidence)}
+            aria-expanded={showEvidence}
+            aria-controls={showEvidence ? MATRIX_ID : undefined}
+            className="inline-flex items-center gap-2 font-mono text-xs tracking-wider text-accent hover:text-accent/80 transition-colors border border-accent/40 hover:border-accent px-6 py-3 rounded"
+          >
+            {showEvidence ? t('skills.hide') : t('skills.show')}
+            <ChevronDown className={`w-3 h-3 transition-transform ${showEvidence ? 'rotate-180' : ''}`} />
+          </button>
         </div>
+        {showEvidence && <SkillMatrix id={MATRIX_ID} />}
 
-        <div className="mt-12 text-center reveal-section">
-          <p className="text-xs text-slate-400 font-mono">
-            Curriculum engineered like software. Designed to scale.
+        <Reveal className="mt-12 text-center">
+          <p className="text-xs text-faint font-mono">
+            {t('toolkit.footnote')}
           </p>
-        </div>
+        </Reveal>
       </div>
     </section>
   )
@@ -0,0 +1,77 @@
+import { ArrowRight, Rss } from 'lucide-react'
+import { posts } from '../content'
+import { Link, postPath, useLocale } from '../router'
+import { postAnchor } from '../lib/anchors'
+import Reveal from '../components/Reveal'
+import { formatDate } from '../i18n'
+import { useT } from '../hooks/useT'
+
+export default function Writing() {
+  const t = useT()
+  const locale = useLocale()
+
+  return (
+    <section id="writing" className="relative py-24 md:py-32 bg-canvas">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        {/* Header */}
+        <Reveal className="text-center mb-16">
+          <div className="flex items-center justify-center gap-4 mb-6">
+            <div className="w-8 h-px bg-accent" />
+            <span className="font-mono text-xs text-accent tracking-wider">{t('writing.eyebrow')}</span>
+            <div className="w-8 h-px bg-accent" />
+          </div>
+          <h2 className="font-mono text-3xl md:text-4xl font-bold mb-4 text-heading">
+            {t('writing.title')} <span className="text-accent">{t('writing.titleAccent')}</span>
+          </h2>
+          <p className="text-body max-w-2xl mx-auto">
+            {t('writing.intro')}
+          </p>
+        </Reveal>
+
+        {/* Posts, newest first */}
+        <Reveal className="max-w-3xl mx-auto space-y-4">
+          {posts.map((post) => (
+            <article
+              key={post.slug}
+              id={postAnchor(post)}
+              className="group p-6 border border-line hover:border-accent/40 transition-colors bg-surface shadow-sm rounded-lg"
+            >
+              <time dateTime={post.date} className="font-mono text-xs text-faint">
+                {formatDate(post.date, locale)}
+              </time>
+              <h3 lang={post.lang} className="font-mono text-lg font-semibold text-strong mt-2 mb-2 group-hover:text-accent transition-colors">
+                <Link to={postPath(post)}>{post.title}</Link>
+              </h3>
+              <p lang={post.lang} className="text-sm text-muted mb-4">{post.summary}</p>
+              <div className="flex flex-wrap items-center justify-between gap-4">
+                <div className="flex flex-wrap gap-2">
+                  {post.tags.map((tag) => (
+                    <span key={tag} className="px-2 py-1 text-xs font-mono bg-surface-sunken text-body border border-line rounded">
+                      {tag}
+                    </span>
+                  ))}
+                </div>
+                <Link
+                  to={postPath(post)}
+                  aria-hidden="true"
+                  tabIndex={-1}
+                  className="inline-flex items-center gap-2 font-mono text-xs tracking-wider text-accent hover:text-accent/80 transition-colors"
+                >
+                  {t('writing.read')} <ArrowRight className="w-3 h-3" />
+                </Link>
+              </div>
+            </article>
+          ))}
+        </Reveal>
+
+        <Reveal className="mt-8 flex items-center justify-center gap-3 font-mono text-xs text-faint">
+          <Rss className="w-3 h-3 text-accent" />
+          <span>{t('writing.feeds')}</span>
+          <a href="/rss.xml" className="hover:text-accent transition-colors">RSS</a>
+          <span aria-hidden="true">/</span>
+          <a href="/atom.xml" className="hover:text-accent transition-colors">Atom</a>
+        </Reveal>
+      </div>
+    </section>
+  )
+}
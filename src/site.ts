@@ -0,0 +1,9 @@
+/** Site-wide constants, shared with the build plugins (so no app imports here). */
+
+export const SITE_NAME = 'Coleen Stanley'
+
+/** Production origin, for absolute URLs in feeds and `hreflang` links */
+export const SITE_URL = 'https://coursecoder.com'
+
+/** The GitHub profile the "view all" links point to */
+export const GITHUB_PROFILE = 'https://github.com/coursecoder'
@@ -0,0 +1,14 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Contact form backend: `formspree`, `mock` or `mock-fail` (see src/lib/contact.ts) */
+  readonly VITE_CONTACT_TRANSPORT?: 'formspree' | 'mock' | 'mock-fail'
+  /** Where analytics events go: `beacon`, `console` or `off` (see src/lib/analytics.ts) */
+  readonly VITE_ANALYTICS_SINK?: 'beacon' | 'console' | 'off'
+  /** URL the beacon sink posts batches of events to */
+  readonly VITE_ANALYTICS_ENDPOINT?: string
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv
+}
@@ -1,13 +1,35 @@
+/** Semantic colors read from the CSS variables in src/index.css, so one class works in every theme */
+const token = (name) => `rgb(var(--color-${name}) / <alpha-value>)`
+
 /** @type {import('tailwindcss').Config} */
 export default {
   content: ['./index.html', './src/**/*.{js,ts,jsx,tsx}'],
   theme: {
     extend: {
       colors: {
-        rose: '#c17b8e',
-        cream: {
-          100: '#f9f7f5',
+        canvas: token('canvas'),
+        surface: {
+          DEFAULT: token('surface'),
+          muted: token('surface-muted'),
+          sunken: token('surface-sunken'),
         },
+        line: {
+          DEFAULT: token('line'),
+          subtle: token('line-subtle'),
+        },
+        heading: token('heading'),
+        strong: token('strong'),
+        body: token('body'),
+        muted: token('muted'),
+        faint: token('faint'),
+        accent: {
+          DEFAULT: token('accent'),
+          contrast: token('accent-contrast'),
+        },
+        success: token('success'),
+        warning: token('warning'),
+        danger: token('danger'),
+        info: token('info'),
       },
       fontFamily: {
         mono: ['JetBrains Mono', 'monospace'],
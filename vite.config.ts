@@ -1,7 +1,12 @@
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
+import content from './plugins/content'
+import feeds from './plugins/feeds'
+import github from './plugins/github'
+import images from './plugins/images'
+import prerender from './plugins/prerender'
 
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), github(), content(), images(), feeds(), prerender()],
   base: '/',
 })